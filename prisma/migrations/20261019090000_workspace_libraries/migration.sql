@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "WorkspaceLibrary" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "workspaceId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" TEXT,
+    "createdByUserId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkspaceLibrary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkspaceLibraryRevision" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "libraryId" UUID NOT NULL,
+    "revisionNumber" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" TEXT,
+    "cql" TEXT NOT NULL,
+    "message" TEXT,
+    "authorUserId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkspaceLibraryRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkspaceLibrary_workspaceId_idx" ON "WorkspaceLibrary"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceLibrary_createdByUserId_idx" ON "WorkspaceLibrary"("createdByUserId");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceLibrary_createdAt_idx" ON "WorkspaceLibrary"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceLibrary_updatedAt_idx" ON "WorkspaceLibrary"("updatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceLibrary_workspaceId_name_key" ON "WorkspaceLibrary"("workspaceId", "name");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceLibraryRevision_authorUserId_idx" ON "WorkspaceLibraryRevision"("authorUserId");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceLibraryRevision_createdAt_idx" ON "WorkspaceLibraryRevision"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceLibraryRevision_updatedAt_idx" ON "WorkspaceLibraryRevision"("updatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceLibraryRevision_libraryId_revisionNumber_key" ON "WorkspaceLibraryRevision"("libraryId", "revisionNumber");
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceLibrary" ADD CONSTRAINT "WorkspaceLibrary_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceLibrary" ADD CONSTRAINT "WorkspaceLibrary_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceLibraryRevision" ADD CONSTRAINT "WorkspaceLibraryRevision_libraryId_fkey" FOREIGN KEY ("libraryId") REFERENCES "WorkspaceLibrary"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceLibraryRevision" ADD CONSTRAINT "WorkspaceLibraryRevision_authorUserId_fkey" FOREIGN KEY ("authorUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN "forkedFromWorkspaceId" UUID;
+
+-- CreateIndex
+CREATE INDEX "Workspace_forkedFromWorkspaceId_idx" ON "Workspace"("forkedFromWorkspaceId");
+
+-- AddForeignKey
+ALTER TABLE "Workspace" ADD CONSTRAINT "Workspace_forkedFromWorkspaceId_fkey" FOREIGN KEY ("forkedFromWorkspaceId") REFERENCES "Workspace"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Team" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedByUserId" UUID;
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedByUserId" UUID;
+
+-- CreateIndex
+CREATE INDEX "Team_deletedAt_idx" ON "Team"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Workspace_deletedAt_idx" ON "Workspace"("deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "Team" ADD CONSTRAINT "Team_deletedByUserId_fkey" FOREIGN KEY ("deletedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Workspace" ADD CONSTRAINT "Workspace_deletedByUserId_fkey" FOREIGN KEY ("deletedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,87 @@
+-- CreateEnum
+CREATE TYPE "TeamJoinRequestStatus" AS ENUM ('PENDING', 'APPROVED', 'DENIED');
+
+-- CreateTable
+CREATE TABLE "TeamInvitation" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "teamId" UUID NOT NULL,
+    "email" TEXT,
+    "role" "TeamMemberRole" NOT NULL DEFAULT 'MEMBER',
+    "status" "InvitationStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3),
+    "maxUses" INTEGER,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "invitedByUserId" UUID,
+    "respondedAt" TIMESTAMP(3),
+    "respondedByUserId" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TeamInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TeamJoinRequest" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "teamId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "status" "TeamJoinRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "message" TEXT,
+    "decidedByUserId" UUID,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TeamJoinRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TeamInvitation_teamId_status_idx" ON "TeamInvitation"("teamId", "status");
+
+-- CreateIndex
+CREATE INDEX "TeamInvitation_email_status_idx" ON "TeamInvitation"("email", "status");
+
+-- CreateIndex
+CREATE INDEX "TeamInvitation_expiresAt_idx" ON "TeamInvitation"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "TeamInvitation_respondedAt_idx" ON "TeamInvitation"("respondedAt");
+
+-- CreateIndex
+CREATE INDEX "TeamInvitation_createdAt_idx" ON "TeamInvitation"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "TeamInvitation_updatedAt_idx" ON "TeamInvitation"("updatedAt");
+
+-- CreateIndex
+CREATE INDEX "TeamJoinRequest_teamId_status_idx" ON "TeamJoinRequest"("teamId", "status");
+
+-- CreateIndex
+CREATE INDEX "TeamJoinRequest_userId_status_idx" ON "TeamJoinRequest"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "TeamJoinRequest_decidedAt_idx" ON "TeamJoinRequest"("decidedAt");
+
+-- CreateIndex
+CREATE INDEX "TeamJoinRequest_createdAt_idx" ON "TeamJoinRequest"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "TeamJoinRequest_updatedAt_idx" ON "TeamJoinRequest"("updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "TeamInvitation" ADD CONSTRAINT "TeamInvitation_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeamInvitation" ADD CONSTRAINT "TeamInvitation_invitedByUserId_fkey" FOREIGN KEY ("invitedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeamInvitation" ADD CONSTRAINT "TeamInvitation_respondedByUserId_fkey" FOREIGN KEY ("respondedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeamJoinRequest" ADD CONSTRAINT "TeamJoinRequest_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeamJoinRequest" ADD CONSTRAINT "TeamJoinRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeamJoinRequest" ADD CONSTRAINT "TeamJoinRequest_decidedByUserId_fkey" FOREIGN KEY ("decidedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
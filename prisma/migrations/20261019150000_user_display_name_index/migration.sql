@@ -0,0 +1,12 @@
+-- CreateIndex
+CREATE INDEX "User_displayName_idx" ON "User"("displayName");
+
+-- User search filters with case-insensitive startsWith / contains (ILIKE 'q%' and '% q%'),
+-- which btree indexes cannot serve. Trigram GIN indexes can.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "User_email_trgm_idx" ON "User" USING GIN ("email" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "User_displayName_trgm_idx" ON "User" USING GIN ("displayName" gin_trgm_ops);
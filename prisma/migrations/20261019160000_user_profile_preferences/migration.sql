@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "avatarUrl" TEXT,
+ADD COLUMN     "defaultWorkspaceId" UUID,
+ADD COLUMN     "displayNameOverride" TEXT,
+ADD COLUMN     "preferences" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateIndex
+CREATE INDEX "User_displayNameOverride_trgm_idx" ON "User" USING GIN ("displayNameOverride" gin_trgm_ops);
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_defaultWorkspaceId_fkey" FOREIGN KEY ("defaultWorkspaceId") REFERENCES "Workspace"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "idToken" TEXT,
+ADD COLUMN     "ssoSid" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Session_ssoSid_idx" ON "Session"("ssoSid");
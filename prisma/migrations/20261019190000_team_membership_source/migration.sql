@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "TeamMembershipSource" AS ENUM ('MANUAL', 'IDP');
+
+-- AlterTable
+ALTER TABLE "TeamMembership" ADD COLUMN     "source" "TeamMembershipSource" NOT NULL DEFAULT 'MANUAL';
@@ -0,0 +1,53 @@
+-- AlterEnum
+ALTER TYPE "WorkspacePrincipalType" ADD VALUE 'SERVICE_ACCOUNT';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "serviceAccountId" UUID,
+ADD COLUMN     "purgedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ServiceAccount" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "teamId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "clientId" TEXT NOT NULL,
+    "secretHash" TEXT NOT NULL,
+    "createdByUserId" UUID,
+    "lastUsedAt" TIMESTAMP(3),
+    "deletedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ServiceAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_serviceAccountId_key" ON "User"("serviceAccountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ServiceAccount_clientId_key" ON "ServiceAccount"("clientId");
+
+-- CreateIndex
+CREATE INDEX "ServiceAccount_teamId_idx" ON "ServiceAccount"("teamId");
+
+-- CreateIndex
+CREATE INDEX "ServiceAccount_createdByUserId_idx" ON "ServiceAccount"("createdByUserId");
+
+-- CreateIndex
+CREATE INDEX "ServiceAccount_deletedAt_idx" ON "ServiceAccount"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "ServiceAccount_createdAt_idx" ON "ServiceAccount"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ServiceAccount_updatedAt_idx" ON "ServiceAccount"("updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_serviceAccountId_fkey" FOREIGN KEY ("serviceAccountId") REFERENCES "ServiceAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ServiceAccount" ADD CONSTRAINT "ServiceAccount_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ServiceAccount" ADD CONSTRAINT "ServiceAccount_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
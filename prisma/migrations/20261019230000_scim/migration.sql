@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "TeamMembershipSource" ADD VALUE 'SCIM';
+
+-- DropForeignKey
+ALTER TABLE "Team" DROP CONSTRAINT "Team_createdByUserId_fkey";
+
+-- AlterTable
+ALTER TABLE "Team" ADD COLUMN     "scimExternalId" TEXT,
+ADD COLUMN     "scimManaged" BOOLEAN NOT NULL DEFAULT false,
+ALTER COLUMN "createdByUserId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "deprovisionedAt" TIMESTAMP(3),
+ADD COLUMN     "scimExternalId" TEXT,
+ADD COLUMN     "scimUserName" TEXT;
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN     "ownerMissingSince" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Workspace_ownerMissingSince_idx" ON "Workspace"("ownerMissingSince");
+
+-- AddForeignKey
+ALTER TABLE "Team" ADD CONSTRAINT "Team_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,328 @@
+// Author: Preston Lee
+
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { Prisma, WorkspacePrincipalType, WorkspaceRole, type User } from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import type { ServerEnv } from '../config/env.js';
+import { requireCsrf } from '../auth/csrf.js';
+import { publicUser, requireAuth, requireSsoConfigured } from '../auth/session.js';
+import { clearWorkspaceOwnerMissing, disableUser, enableUser } from '../user/deprovision.js';
+import { HUMAN_USER_WHERE, userNameMatches } from '../user/search.js';
+import { recordActivity } from '../workspace/access.js';
+import {
+  parseWorkspaceActivityPageQuery,
+  WorkspaceActivityTargetType,
+  WorkspaceActivityVerb,
+} from '../workspace/activity.js';
+import { WORKSPACE_ACTIVITY_ACTOR_SELECT } from '../workspace/activity-stream.js';
+import { parseAdminListQuery } from './site-admin.js';
+
+function asyncHandler(
+  fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+}
+
+function requireSiteAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user?.isSiteAdmin) {
+    res.status(403).json({ error: 'Site admin required' });
+    return;
+  }
+  next();
+}
+
+function serializeAdminUser(user: User) {
+  return {
+    ...publicUser(user),
+    ssoIssuer: user.ssoIssuer,
+    ssoSubject: user.ssoSubject,
+    isSiteAdmin: user.isSiteAdmin,
+    disabledAt: user.disabledAt,
+    deprovisionedAt: user.deprovisionedAt,
+    createdAt: user.createdAt,
+    lastLoginAt: user.lastLoginAt,
+  };
+}
+
+/**
+ * Deployment-wide administration under /api/admin; site admins only. Lists reach every user,
+ * team and workspace (trashed ones with `includeDeleted=true`), regardless of membership.
+ */
+export function createAdminRouter(env: ServerEnv): Router {
+  const router = Router();
+  router.use(requireSsoConfigured(env));
+  router.use(requireAuth(env));
+  router.use(requireCsrf(env));
+  router.use(requireSiteAdmin);
+
+  /** People only; service account backing users are managed by their team. */
+  router.get(
+    '/users',
+    asyncHandler(async (req, res) => {
+      const parsed = parseAdminListQuery(req);
+      if (typeof parsed === 'string') {
+        res.status(400).json({ error: parsed });
+        return;
+      }
+      const { q, page, pageSize, skip } = parsed;
+      const where: Prisma.UserWhereInput = q
+        ? { ...HUMAN_USER_WHERE, OR: userNameMatches(q) }
+        : HUMAN_USER_WHERE;
+      const [users, total] = await Promise.all([
+        getPrisma().user.findMany({
+          where,
+          orderBy: [{ displayName: 'asc' }, { email: 'asc' }, { id: 'asc' }],
+          skip,
+          take: pageSize,
+        }),
+        getPrisma().user.count({ where }),
+      ]);
+      res.json({ items: users.map(serializeAdminUser), total, page, pageSize });
+    })
+  );
+
+  /**
+   * `{ disabled: boolean }`. Disabling ends every session of the user at once and reports the
+   * workspaces it left without an active owner (`ownerlessWorkspaceIds`).
+   */
+  router.patch(
+    '/users/:userId',
+    asyncHandler(async (req, res) => {
+      const disabled = req.body?.disabled;
+      if (typeof disabled !== 'boolean') {
+        res.status(400).json({ error: 'disabled must be a boolean' });
+        return;
+      }
+      const prisma = getPrisma();
+      const target = await prisma.user.findFirst({
+        where: { id: req.params.userId, ...HUMAN_USER_WHERE },
+      });
+      if (!target) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+      if (disabled && target.id === req.user!.id) {
+        res.status(400).json({ error: 'You cannot disable your own account' });
+        return;
+      }
+      if (!disabled) {
+        await enableUser(target.id);
+        const user = await prisma.user.findUniqueOrThrow({ where: { id: target.id } });
+        res.json(serializeAdminUser(user));
+        return;
+      }
+      const { sessions, ownerlessWorkspaceIds } = await disableUser(target.id);
+      console.log(
+        `[admin] User ${target.id} disabled by ${req.user!.id}; ended ${sessions} session(s)`
+      );
+      const user = await prisma.user.findUniqueOrThrow({ where: { id: target.id } });
+      res.json({ ...serializeAdminUser(user), ownerlessWorkspaceIds });
+    })
+  );
+
+  router.get(
+    '/teams',
+    asyncHandler(async (req, res) => {
+      const parsed = parseAdminListQuery(req);
+      if (typeof parsed === 'string') {
+        res.status(400).json({ error: parsed });
+        return;
+      }
+      const { q, page, pageSize, skip, includeDeleted } = parsed;
+      const where: Prisma.TeamWhereInput = {
+        ...(!includeDeleted && { deletedAt: null }),
+        ...(q && {
+          OR: [
+            { name: { contains: q, mode: 'insensitive' } },
+            { slug: { contains: q, mode: 'insensitive' } },
+          ],
+        }),
+      };
+      const [teams, total] = await Promise.all([
+        getPrisma().team.findMany({
+          where,
+          include: { _count: { select: { memberships: true } } },
+          orderBy: [{ name: 'asc' }, { id: 'asc' }],
+          skip,
+          take: pageSize,
+        }),
+        getPrisma().team.count({ where }),
+      ]);
+      res.json({ items: teams, total, page, pageSize });
+    })
+  );
+
+  /**
+   * Moves a team to the trash like `DELETE /api/teams/:id`, but without requiring team admin
+   * and without the sole-owner check: an abusive team must not be able to shield itself by
+   * owning workspaces. Such workspaces can be handed over with the ownership endpoint below.
+   */
+  router.delete(
+    '/teams/:teamId',
+    asyncHandler(async (req, res) => {
+      const existing = await getPrisma().team.findUnique({ where: { id: req.params.teamId } });
+      if (!existing) {
+        res.status(404).json({ error: 'Team not found' });
+        return;
+      }
+      if (existing.deletedAt) {
+        res.status(409).json({ error: 'Team is already in the trash' });
+        return;
+      }
+      await getPrisma().team.update({
+        where: { id: existing.id },
+        data: { deletedAt: new Date(), deletedByUserId: req.user!.id },
+      });
+      res.status(204).send();
+    })
+  );
+
+  /** `ownerMissing=true` lists only workspaces flagged as left without an active owner. */
+  router.get(
+    '/workspaces',
+    asyncHandler(async (req, res) => {
+      const parsed = parseAdminListQuery(req);
+      if (typeof parsed === 'string') {
+        res.status(400).json({ error: parsed });
+        return;
+      }
+      const { q, page, pageSize, skip, includeDeleted } = parsed;
+      const where: Prisma.WorkspaceWhereInput = {
+        ...(!includeDeleted && { deletedAt: null }),
+        ...(req.query.ownerMissing === 'true' && { ownerMissingSince: { not: null } }),
+        ...(q && {
+          OR: [
+            { name: { contains: q, mode: 'insensitive' } },
+            { slug: { contains: q, mode: 'insensitive' } },
+          ],
+        }),
+      };
+      const [workspaces, total] = await Promise.all([
+        getPrisma().workspace.findMany({
+          where,
+          include: { grants: { where: { role: WorkspaceRole.OWNER } } },
+          orderBy: [{ name: 'asc' }, { id: 'asc' }],
+          skip,
+          take: pageSize,
+        }),
+        getPrisma().workspace.count({ where }),
+      ]);
+      res.json({
+        items: workspaces.map(({ grants, ...workspace }) => ({ ...workspace, owners: grants })),
+        total,
+        page,
+        pageSize,
+      });
+    })
+  );
+
+  /**
+   * Forced ownership transfer: `{ userId, keepExistingOwners? }` makes the user an OWNER of the
+   * workspace (also when it is archived or trashed). Other OWNER grants are lowered to EDITOR
+   * unless `keepExistingOwners` is true.
+   */
+  router.post(
+    '/workspaces/:workspaceId/owner',
+    asyncHandler(async (req, res) => {
+      const userId = typeof req.body?.userId === 'string' ? req.body.userId.trim() : '';
+      if (!userId) {
+        res.status(400).json({ error: 'userId is required' });
+        return;
+      }
+      const keepExistingOwners = req.body?.keepExistingOwners === true;
+      const prisma = getPrisma();
+      const workspace = await prisma.workspace.findUnique({
+        where: { id: req.params.workspaceId },
+      });
+      if (!workspace) {
+        res.status(404).json({ error: 'Workspace not found' });
+        return;
+      }
+      const target = await prisma.user.findFirst({ where: { id: userId, ...HUMAN_USER_WHERE } });
+      if (!target) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+      if (target.disabledAt) {
+        res.status(409).json({ error: 'User is disabled' });
+        return;
+      }
+      const { grant, demoted } = await prisma.$transaction(async (tx) => {
+        const lowered = keepExistingOwners
+          ? { count: 0 }
+          : await tx.workspaceAccessGrant.updateMany({
+              where: {
+                workspaceId: workspace.id,
+                role: WorkspaceRole.OWNER,
+                NOT: { principalType: WorkspacePrincipalType.USER, principalId: target.id },
+              },
+              data: { role: WorkspaceRole.EDITOR },
+            });
+        const upserted = await tx.workspaceAccessGrant.upsert({
+          where: {
+            workspaceId_principalType_principalId: {
+              workspaceId: workspace.id,
+              principalType: WorkspacePrincipalType.USER,
+              principalId: target.id,
+            },
+          },
+          create: {
+            workspaceId: workspace.id,
+            principalType: WorkspacePrincipalType.USER,
+            principalId: target.id,
+            role: WorkspaceRole.OWNER,
+            grantedByUserId: req.user!.id,
+          },
+          update: { role: WorkspaceRole.OWNER, grantedByUserId: req.user!.id },
+        });
+        return { grant: upserted, demoted: lowered.count };
+      });
+      await clearWorkspaceOwnerMissing(workspace.id);
+      await recordActivity(
+        workspace.id,
+        req.user!.id,
+        WorkspaceActivityVerb.GrantUpserted,
+        WorkspaceActivityTargetType.Grant,
+        grant.id,
+        {
+          principalType: WorkspacePrincipalType.USER,
+          principalId: target.id,
+          role: WorkspaceRole.OWNER,
+          siteAdmin: true,
+          demotedOwners: demoted,
+        }
+      );
+      res.json({ ...grant, demotedOwners: demoted });
+    })
+  );
+
+  /** Activity across every workspace; same paging as `GET /api/activity`. */
+  router.get(
+    '/activity',
+    asyncHandler(async (req, res) => {
+      const { page, pageSize, skip, sortBy, sortOrder } = parseWorkspaceActivityPageQuery(req);
+      const workspaceId =
+        typeof req.query.workspaceId === 'string' ? req.query.workspaceId : undefined;
+      const where = workspaceId ? { workspaceId } : {};
+      const [items, total] = await Promise.all([
+        getPrisma().workspaceActivity.findMany({
+          where,
+          include: {
+            actor: { select: WORKSPACE_ACTIVITY_ACTOR_SELECT },
+            workspace: { select: { id: true, name: true, slug: true } },
+          },
+          orderBy: { [sortBy]: sortOrder },
+          skip,
+          take: pageSize,
+        }),
+        getPrisma().workspaceActivity.count({ where }),
+      ]);
+      res.json({ items, total, page, pageSize, sortBy, sortOrder });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,65 @@
+// Author: Preston Lee
+
+import type { Request } from 'express';
+import type { ServerEnv, SsoProvider } from '../config/env.js';
+import { readTrustedGroups } from '../team/idp-sync.js';
+
+export const ADMIN_LIST_DEFAULT_PAGE_SIZE = 25;
+export const ADMIN_LIST_MAX_PAGE_SIZE = 100;
+export const ADMIN_LIST_MAX_QUERY_LENGTH = 100;
+
+export interface AdminListQuery {
+  /** Optional case-insensitive filter; null lists everything. */
+  q: string | null;
+  page: number;
+  pageSize: number;
+  skip: number;
+  /** `includeDeleted=true` also lists trashed teams and workspaces. */
+  includeDeleted: boolean;
+}
+
+/**
+ * Site admin flag for a user signing in through `provider` with `subject` and ID token `claims`:
+ * true when `provider.id:subject` is listed or the configured group is asserted by a provider
+ * trusted for groups. Returns null (keep the stored flag) when a trusted provider's token
+ * carries no groups claim, so a misconfigured scope cannot demote every administrator.
+ */
+export function resolveSiteAdmin(
+  subject: string,
+  claims: Record<string, unknown>,
+  provider: Pick<SsoProvider, 'id' | 'trustGroups'>,
+  env: Pick<ServerEnv, 'siteAdminSubjects' | 'siteAdminGroup' | 'ssoGroupsClaim'>
+): boolean | null {
+  if (env.siteAdminSubjects.includes(`${provider.id}:${subject}`)) {
+    return true;
+  }
+  if (!env.siteAdminGroup || !provider.trustGroups) {
+    return false;
+  }
+  const groups = readTrustedGroups(claims, provider, env);
+  return groups ? groups.includes(env.siteAdminGroup) : null;
+}
+
+/** Pagination and filter for the /api/admin listings; `q` longer than the limit returns an error. */
+export function parseAdminListQuery(req: Pick<Request, 'query'>): AdminListQuery | string {
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  if (q.length > ADMIN_LIST_MAX_QUERY_LENGTH) {
+    return `q must be at most ${ADMIN_LIST_MAX_QUERY_LENGTH} characters`;
+  }
+  const rawPage = Number(req.query.page);
+  const page = Number.isFinite(rawPage) && rawPage >= 1 ? Math.floor(rawPage) : 1;
+  const rawPageSize = Number(req.query.pageSize ?? req.query.limit);
+  const pageSize = Math.min(
+    Number.isFinite(rawPageSize) && rawPageSize >= 1
+      ? Math.floor(rawPageSize)
+      : ADMIN_LIST_DEFAULT_PAGE_SIZE,
+    ADMIN_LIST_MAX_PAGE_SIZE
+  );
+  return {
+    q: q || null,
+    page,
+    pageSize,
+    skip: (page - 1) * pageSize,
+    includeDeleted: req.query.includeDeleted === 'true',
+  };
+}
@@ -0,0 +1,92 @@
+// Author: Preston Lee
+
+import { createRemoteJWKSet, decodeJwt, jwtVerify, type JWTPayload } from 'jose';
+import type { ServerEnv, SsoProvider } from '../config/env.js';
+import { findSsoProviderByIssuer, getOidcConfig } from './oidc.js';
+
+export const BACKCHANNEL_LOGOUT_EVENT = 'http://schemas.openid.net/event/backchannel-logout';
+
+/** Logout tokens older than this (by `iat`) are rejected. */
+const LOGOUT_TOKEN_MAX_AGE = '5m';
+
+const jwksByUri = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+export class LogoutTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LogoutTokenError';
+    Object.setPrototypeOf(this, LogoutTokenError.prototype);
+  }
+}
+
+export interface LogoutTokenSubject {
+  provider: SsoProvider;
+  sub: string | null;
+  sid: string | null;
+}
+
+/**
+ * Claim checks from OpenID Connect Back-Channel Logout 1.0 §2.6 that remain after signature,
+ * `iss`, `aud` and `iat` verification: the back-channel logout event must be present, `sub`
+ * or `sid` must identify what to end, and a `nonce` (which would make it an ID token) is
+ * forbidden.
+ */
+export function parseLogoutTokenClaims(
+  payload: JWTPayload
+): Omit<LogoutTokenSubject, 'provider'> {
+  const events = payload.events as Record<string, unknown> | undefined;
+  const event = events && typeof events === 'object' ? events[BACKCHANNEL_LOGOUT_EVENT] : undefined;
+  if (!event || typeof event !== 'object' || Array.isArray(event)) {
+    throw new LogoutTokenError('Logout token is missing the back-channel logout event');
+  }
+  if (payload.nonce !== undefined) {
+    throw new LogoutTokenError('Logout token must not contain a nonce');
+  }
+  const sub = typeof payload.sub === 'string' && payload.sub ? payload.sub : null;
+  const sid = typeof payload.sid === 'string' && payload.sid ? payload.sid : null;
+  if (!sub && !sid) {
+    throw new LogoutTokenError('Logout token must contain sub or sid');
+  }
+  return { sub, sid };
+}
+
+/**
+ * Verifies a back-channel logout token and returns whom to sign out. The unverified `iss`
+ * only selects which configured provider's JWKS and client id the token is checked against.
+ */
+export async function verifyLogoutToken(
+  env: ServerEnv,
+  token: string
+): Promise<LogoutTokenSubject> {
+  let issuer: unknown;
+  try {
+    issuer = decodeJwt(token).iss;
+  } catch {
+    throw new LogoutTokenError('Logout token is not a JWT');
+  }
+  const provider = typeof issuer === 'string' ? findSsoProviderByIssuer(env, issuer) : null;
+  if (!provider) {
+    throw new LogoutTokenError('Logout token issuer is not a configured SSO provider');
+  }
+  const metadata = (await getOidcConfig(provider)).serverMetadata();
+  if (!metadata.jwks_uri) {
+    throw new LogoutTokenError('SSO issuer does not publish a jwks_uri');
+  }
+  let jwks = jwksByUri.get(metadata.jwks_uri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(metadata.jwks_uri));
+    jwksByUri.set(metadata.jwks_uri, jwks);
+  }
+  let payload: JWTPayload;
+  try {
+    ({ payload } = await jwtVerify(token, jwks, {
+      issuer: metadata.issuer,
+      audience: provider.clientId,
+      requiredClaims: ['iat'],
+      maxTokenAge: LOGOUT_TOKEN_MAX_AGE,
+    }));
+  } catch (err) {
+    throw new LogoutTokenError(`Invalid logout token: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return { provider, ...parseLogoutTokenClaims(payload) };
+}
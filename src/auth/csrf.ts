@@ -0,0 +1,104 @@
+// Author: Preston Lee
+
+import crypto from 'node:crypto';
+import type { Request, Response, NextFunction } from 'express';
+import type { ServerEnv } from '../config/env.js';
+
+/** Request header carrying the token from `GET /api/auth/session` (`csrfToken`). */
+export const CSRF_HEADER = 'x-csrf-token';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+type CsrfEnv = Pick<ServerEnv, 'sessionSecrets' | 'corsOrigin' | 'uiBaseUrl'>;
+
+function csrfSignature(sessionId: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`csrf:${sessionId}`).digest('base64url');
+}
+
+/**
+ * Signed per-session token: an HMAC of the session id, so nothing is stored and a token is
+ * useless for any other session. Distinct from the cookie signature, which it must not reveal.
+ */
+export function createCsrfToken(sessionId: string, secret: string): string {
+  return csrfSignature(sessionId, secret);
+}
+
+/** Accepts tokens signed with any configured session secret so rotation does not break tabs. */
+export function csrfTokenMatches(
+  token: string | undefined,
+  sessionId: string,
+  secrets: readonly string[]
+): boolean {
+  if (!token) {
+    return false;
+  }
+  const actual = Buffer.from(token);
+  return secrets.some((secret) => {
+    const expected = Buffer.from(csrfSignature(sessionId, secret));
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  });
+}
+
+function toOrigin(value: string): string | null {
+  try {
+    return new URL(value).origin;
+  } catch {
+    return null;
+  }
+}
+
+/** Origins the Studio UI is served from (`CQL_STUDIO_SERVER_CORS_ORIGIN` and the UI base URL). */
+export function trustedOrigins(env: Pick<ServerEnv, 'corsOrigin' | 'uiBaseUrl'>): Set<string> {
+  const origins = new Set<string>();
+  for (const value of [env.corsOrigin, env.uiBaseUrl]) {
+    const origin = toOrigin(value);
+    if (origin) {
+      origins.add(origin);
+    }
+  }
+  return origins;
+}
+
+/**
+ * Checks `Origin`, falling back to the `Referer` origin. Requests carrying neither are allowed
+ * here (some clients strip both) and left to the token check; `Origin: null` is refused.
+ */
+export function isTrustedRequestOrigin(
+  origin: string | undefined,
+  referer: string | undefined,
+  trusted: ReadonlySet<string>
+): boolean {
+  if (origin !== undefined) {
+    return trusted.has(origin);
+  }
+  if (referer !== undefined) {
+    const refererOrigin = toOrigin(referer);
+    return refererOrigin !== null && trusted.has(refererOrigin);
+  }
+  return true;
+}
+
+/**
+ * Refuses cookie-authenticated mutations from other sites. Runs after `optionalAuth` /
+ * `requireAuth`: only requests authenticated by the session cookie (`req.sessionId`) are
+ * checked, since bearer tokens and service account credentials are never sent by the browser
+ * on its own.
+ */
+export function requireCsrf(env: CsrfEnv) {
+  const trusted = trustedOrigins(env);
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (SAFE_METHODS.has(req.method) || !req.sessionId) {
+      next();
+      return;
+    }
+    if (!isTrustedRequestOrigin(req.get('origin'), req.get('referer'), trusted)) {
+      res.status(403).json({ error: 'Cross-site request refused' });
+      return;
+    }
+    if (!csrfTokenMatches(req.get(CSRF_HEADER), req.sessionId, env.sessionSecrets)) {
+      res.status(403).json({ error: 'CSRF token missing or invalid' });
+      return;
+    }
+    next();
+  };
+}
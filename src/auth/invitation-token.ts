@@ -0,0 +1,42 @@
+// Author: Preston Lee
+
+import { hmacSign, hmacVerify } from './hmac.js';
+
+export type InvitationKind = 'workspace' | 'team';
+
+const TOKEN_PREFIX = 'invitation';
+const INVITATION_KINDS: readonly InvitationKind[] = ['workspace', 'team'];
+
+export interface InvitationTokenClaims {
+  kind: InvitationKind;
+  invitationId: string;
+}
+
+/**
+ * Shareable token for an invitation: `invitation:<kind>:<id>.signature`. The token only
+ * identifies the invitation; expiry, revocation and acceptance live on the database row.
+ */
+export function signInvitationToken(kind: InvitationKind, invitationId: string, secret: string): string {
+  return hmacSign(`${TOKEN_PREFIX}:${kind}:${invitationId}`, secret);
+}
+
+/** Returns null for tampered tokens, unknown kinds and tokens signed by a retired secret. */
+export function verifyInvitationToken(
+  token: string,
+  secrets: readonly string[]
+): InvitationTokenClaims | null {
+  const verified = hmacVerify(token.trim(), secrets);
+  if (!verified) {
+    return null;
+  }
+  const [prefix, kind, invitationId, ...rest] = verified.payload.split(':');
+  if (
+    prefix !== TOKEN_PREFIX ||
+    rest.length > 0 ||
+    !invitationId ||
+    !INVITATION_KINDS.includes(kind as InvitationKind)
+  ) {
+    return null;
+  }
+  return { kind: kind as InvitationKind, invitationId };
+}
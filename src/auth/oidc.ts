@@ -2,9 +2,38 @@
 
 import * as client from 'openid-client';
 import type { Configuration } from 'openid-client';
-import type { ServerEnv } from '../config/env.js';
+import type { ServerEnv, SsoProvider } from '../config/env.js';
 
-const configBySecret = new Map<string, Configuration>();
+/** Discovered configuration per provider and client secret. */
+const configCache = new Map<string, Configuration>();
+
+/** The provider to sign in with; an omitted id selects the first configured provider. */
+export function findSsoProvider(env: ServerEnv, providerId: string | undefined): SsoProvider | null {
+  if (!providerId) {
+    return env.ssoProviders[0] ?? null;
+  }
+  return env.ssoProviders.find((p) => p.id === providerId) ?? null;
+}
+
+/** The provider whose issuer is `issuer` (e.g. `User.ssoIssuer`), ignoring a trailing slash. */
+export function findSsoProviderByIssuer(env: ServerEnv, issuer: string): SsoProvider | null {
+  const wanted = issuer.replace(/\/+$/, '');
+  return env.ssoProviders.find((p) => p.issuerUrl.replace(/\/+$/, '') === wanted) ?? null;
+}
+
+/**
+ * The ID token's `email` when it may claim invitations: the IdP must assert `email_verified:
+ * true`, unless the provider is configured to vouch for addresses it does not mark verified.
+ */
+export function verifiedEmailClaim(
+  claims: Record<string, unknown>,
+  provider: Pick<SsoProvider, 'trustUnverifiedEmail'>
+): string | null {
+  if (typeof claims.email !== 'string' || !claims.email) {
+    return null;
+  }
+  return claims.email_verified === true || provider.trustUnverifiedEmail ? claims.email : null;
+}
 
 function discoveryOptionsForIssuer(
   issuerUrl: string
@@ -38,26 +67,27 @@ function wrapOidcDiscoveryError(err: unknown, issuerUrl: string): Error {
 }
 
 export async function getOidcConfig(
-  env: ServerEnv,
-  clientSecret: string = env.ssoClientSecret
+  provider: SsoProvider,
+  clientSecret: string = provider.clientSecret
 ): Promise<Configuration> {
-  const cached = configBySecret.get(clientSecret);
+  const key = `${provider.id}\n${clientSecret}`;
+  const cached = configCache.get(key);
   if (cached) {
     return cached;
   }
   let config: Configuration;
   try {
     config = await client.discovery(
-      new URL(env.ssoIssuerUrl),
-      env.ssoClientId,
+      new URL(provider.issuerUrl),
+      provider.clientId,
       clientSecret,
       undefined,
-      discoveryOptionsForIssuer(env.ssoIssuerUrl)
+      discoveryOptionsForIssuer(provider.issuerUrl)
     );
   } catch (err) {
-    throw wrapOidcDiscoveryError(err, env.ssoIssuerUrl);
+    throw wrapOidcDiscoveryError(err, provider.issuerUrl);
   }
-  configBySecret.set(clientSecret, config);
+  configCache.set(key, config);
   return config;
 }
 
@@ -66,7 +96,7 @@ export async function getOidcConfig(
  * previous secrets during an OIDC client-secret rotation window.
  */
 export async function authorizationCodeGrantWithSecretRotation(
-  env: ServerEnv,
+  provider: SsoProvider,
   callbackUrl: URL,
   checks: {
     pkceCodeVerifier: string;
@@ -74,11 +104,11 @@ export async function authorizationCodeGrantWithSecretRotation(
     expectedNonce: string;
   }
 ) {
-  const secrets = [env.ssoClientSecret, ...env.ssoClientSecretPrevious];
+  const secrets = [provider.clientSecret, ...provider.clientSecretPrevious];
   let lastError: unknown;
   for (let i = 0; i < secrets.length; i++) {
     try {
-      const config = await getOidcConfig(env, secrets[i]);
+      const config = await getOidcConfig(provider, secrets[i]);
       return await client.authorizationCodeGrant(config, callbackUrl, checks);
     } catch (err) {
       lastError = err;
@@ -104,8 +134,37 @@ function isLikelyClientAuthError(err: unknown): boolean {
   );
 }
 
+/**
+ * The IdP's RP-initiated logout URL (OpenID Connect RP-Initiated Logout 1.0), or null when the
+ * issuer does not advertise an `end_session_endpoint` or cannot be reached — local sign-out
+ * must still succeed in that case.
+ */
+export async function buildIdpLogoutUrl(
+  env: ServerEnv,
+  provider: SsoProvider,
+  idTokenHint: string | null
+): Promise<string | null> {
+  try {
+    const config = await getOidcConfig(provider);
+    if (!config.serverMetadata().end_session_endpoint) {
+      return null;
+    }
+    const params: Record<string, string> = {
+      client_id: provider.clientId,
+      post_logout_redirect_uri: env.uiBaseUrl,
+    };
+    if (idTokenHint) {
+      params.id_token_hint = idTokenHint;
+    }
+    return client.buildEndSessionUrl(config, params).href;
+  } catch (err) {
+    console.warn('[auth] Skipping IdP logout:', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
 export function clearOidcConfigCache(): void {
-  configBySecret.clear();
+  configCache.clear();
 }
 
 export { client as oidcClient };
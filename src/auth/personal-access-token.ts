@@ -0,0 +1,85 @@
+// Author: Preston Lee
+
+import crypto from 'node:crypto';
+import { PersonalAccessTokenScope } from '@prisma/client';
+
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'cqls_pat_';
+export const PERSONAL_ACCESS_TOKEN_DEFAULT_TTL_DAYS = 30;
+export const PERSONAL_ACCESS_TOKEN_MAX_TTL_DAYS = 365;
+export const PERSONAL_ACCESS_TOKEN_MAX_PER_USER = 50;
+export const PERSONAL_ACCESS_TOKEN_NAME_MAX_LENGTH = 100;
+
+/** Characters of the token kept in clear (`tokenPrefix`) so users can tell tokens apart. */
+const DISPLAY_PREFIX_LENGTH = PERSONAL_ACCESS_TOKEN_PREFIX.length + 6;
+
+/** A new random token; only `tokenHash` and `tokenPrefix` are stored, `token` is shown once. */
+export function generatePersonalAccessToken(): {
+  token: string;
+  tokenHash: string;
+  tokenPrefix: string;
+} {
+  const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    tokenHash: hashPersonalAccessToken(token),
+    tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+  };
+}
+
+/** Tokens carry 256 random bits, so an unsalted SHA-256 is enough to protect them at rest. */
+export function hashPersonalAccessToken(token: string): string {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+/** The token from `Authorization: Bearer cqls_pat_…`; null for other schemes or token kinds. */
+export function readBearerPersonalAccessToken(header: string | undefined): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header ?? '');
+  if (!match || !match[1].startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+    return null;
+  }
+  return match[1];
+}
+
+/** `scopes`: non-empty READ/WRITE list (any case); defaults to READ. Invalid input returns null. */
+export function parsePersonalAccessTokenScopes(raw: unknown): PersonalAccessTokenScope[] | null {
+  if (raw === undefined) {
+    return [PersonalAccessTokenScope.READ];
+  }
+  if (!Array.isArray(raw) || !raw.length) {
+    return null;
+  }
+  const scopes = new Set<PersonalAccessTokenScope>();
+  for (const entry of raw) {
+    const upper = typeof entry === 'string' ? entry.toUpperCase() : '';
+    if (upper !== PersonalAccessTokenScope.READ && upper !== PersonalAccessTokenScope.WRITE) {
+      return null;
+    }
+    scopes.add(upper);
+  }
+  return [...scopes];
+}
+
+/** `expiresInDays`: defaults to 30; invalid or out-of-range values return null. */
+export function parsePersonalAccessTokenTtlDays(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === '') {
+    return PERSONAL_ACCESS_TOKEN_DEFAULT_TTL_DAYS;
+  }
+  const days = typeof raw === 'number' ? raw : Number(raw);
+  if (!Number.isInteger(days) || days < 1 || days > PERSONAL_ACCESS_TOKEN_MAX_TTL_DAYS) {
+    return null;
+  }
+  return days;
+}
+
+/** READ tokens may only make safe requests; WRITE tokens may make any request. */
+export function personalAccessTokenAllows(
+  scopes: readonly PersonalAccessTokenScope[],
+  method: string
+): boolean {
+  if (scopes.includes(PersonalAccessTokenScope.WRITE)) {
+    return true;
+  }
+  return (
+    scopes.includes(PersonalAccessTokenScope.READ) && ['GET', 'HEAD', 'OPTIONS'].includes(method)
+  );
+}
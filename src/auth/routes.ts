@@ -4,27 +4,44 @@ import { Router } from 'express';
 import type { Request, Response, NextFunction } from 'express';
 import { getPrisma } from '../db/prisma.js';
 import type { ServerEnv } from '../config/env.js';
+import { resolveSiteAdmin } from '../admin/site-admin.js';
+import { syncIdpTeamMemberships } from '../team/idp-sync.js';
+import { convertPendingTeamInvitations } from '../team/invitations.js';
+import { convertPendingWorkspaceInvitations } from '../workspace/invitations.js';
+import {
+  LogoutTokenError,
+  verifyLogoutToken,
+  type LogoutTokenSubject,
+} from './backchannel-logout.js';
 import {
   authorizationCodeGrantWithSecretRotation,
+  buildIdpLogoutUrl,
+  findSsoProvider,
+  findSsoProviderByIssuer,
   getOidcConfig,
   oidcClient,
+  verifiedEmailClaim,
 } from './oidc.js';
+import { createCsrfToken, requireCsrf } from './csrf.js';
 import { hmacSign, hmacVerify } from './hmac.js';
 import {
   clearSessionCookie,
+  computeSessionExpiry,
   optionalAuth,
   publicUser,
+  requireAuth,
   requireSsoConfigured,
   SESSION_COOKIE,
+  sessionClientInfo,
   sessionCookieOptions,
   setSessionCookie,
   verifySessionCookie,
 } from './session.js';
 
 const LOGIN_STATE_COOKIE = 'cql_studio_oidc_state';
-const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
 interface LoginState {
+  providerId: string;
   codeVerifier: string;
   state: string;
   nonce: string;
@@ -78,6 +95,7 @@ function asyncHandler(
 export function createAuthRouter(env: ServerEnv): Router {
   const router = Router();
   const gate = requireSsoConfigured(env);
+  const csrf = requireCsrf(env);
 
   router.get(
     '/session',
@@ -90,15 +108,30 @@ export function createAuthRouter(env: ServerEnv): Router {
       res.json({
         enabled: true,
         user: req.user ? publicUser(req.user) : null,
+        // Send back as the X-CSRF-Token header on cookie-authenticated mutations.
+        csrfToken: req.sessionId ? createCsrfToken(req.sessionId, env.sessionSecret) : null,
       });
     })
   );
 
+  /** Sign-in choices for the UI; pass an `id` as `/api/auth/login?provider=`. */
+  router.get('/providers', gate, (_req, res) => {
+    res.json(env.ssoProviders.map((p) => ({ id: p.id, name: p.name })));
+  });
+
   router.get(
     '/login',
     gate,
     asyncHandler(async (req, res) => {
-      const config = await getOidcConfig(env);
+      const provider = findSsoProvider(
+        env,
+        typeof req.query.provider === 'string' ? req.query.provider : undefined
+      );
+      if (!provider) {
+        res.status(400).json({ error: 'Unknown SSO provider' });
+        return;
+      }
+      const config = await getOidcConfig(provider);
       const codeVerifier = oidcClient.randomPKCECodeVerifier();
       const codeChallenge = await oidcClient.calculatePKCECodeChallenge(codeVerifier);
       const state = oidcClient.randomState();
@@ -107,7 +140,13 @@ export function createAuthRouter(env: ServerEnv): Router {
         typeof req.query.returnTo === 'string' ? req.query.returnTo : undefined
       );
 
-      const loginState: LoginState = { codeVerifier, state, nonce, returnTo };
+      const loginState: LoginState = {
+        providerId: provider.id,
+        codeVerifier,
+        state,
+        nonce,
+        returnTo,
+      };
       res.cookie(LOGIN_STATE_COOKIE, encodeLoginState(loginState, env.sessionSecret), {
         ...sessionCookieOptions(env),
         maxAge: 10 * 60 * 1000,
@@ -115,7 +154,7 @@ export function createAuthRouter(env: ServerEnv): Router {
 
       const redirectTo = oidcClient.buildAuthorizationUrl(config, {
         redirect_uri: env.ssoRedirectUrl,
-        scope: env.ssoScopes,
+        scope: provider.scopes,
         code_challenge: codeChallenge,
         code_challenge_method: 'S256',
         state,
@@ -136,7 +175,8 @@ export function createAuthRouter(env: ServerEnv): Router {
         return;
       }
       const loginState = decodeLoginState(rawState, env.sessionSecrets);
-      if (!loginState) {
+      const provider = loginState && findSsoProvider(env, loginState.providerId);
+      if (!loginState || !provider) {
         res.status(400).json({ error: 'Invalid login state' });
         return;
       }
@@ -145,7 +185,7 @@ export function createAuthRouter(env: ServerEnv): Router {
       const callbackUrl = new URL(env.ssoRedirectUrl);
       callbackUrl.search = currentUrl.search;
 
-      const tokens = await authorizationCodeGrantWithSecretRotation(env, callbackUrl, {
+      const tokens = await authorizationCodeGrantWithSecretRotation(provider, callbackUrl, {
         pkceCodeVerifier: loginState.codeVerifier,
         expectedState: loginState.state,
         expectedNonce: loginState.nonce,
@@ -170,52 +210,217 @@ export function createAuthRouter(env: ServerEnv): Router {
             ? claims.preferred_username
             : email;
 
+      const isSiteAdmin = resolveSiteAdmin(claims.sub, claims, provider, env) ?? undefined;
       const prisma = getPrisma();
+      const userKey = { ssoIssuer: provider.issuerUrl, ssoSubject: claims.sub };
+      const stored = await prisma.user.findUnique({
+        where: { ssoIssuer_ssoSubject: userKey },
+        select: { email: true, emailVerified: true },
+      });
+      // Invitations match only verified addresses (see verifiedEmailClaim), never a
+      // preferred_username fallback. An address already verified (e.g. by SCIM) stays verified
+      // while the IdP keeps asserting it.
+      const emailVerified =
+        email !== null &&
+        (email === verifiedEmailClaim(claims, provider) ||
+          (stored?.emailVerified === true && stored.email === email));
       const user = await prisma.user.upsert({
-        where: {
-          ssoIssuer_ssoSubject: {
-            ssoIssuer: env.ssoIssuerUrl,
-            ssoSubject: claims.sub,
-          },
-        },
+        where: { ssoIssuer_ssoSubject: userKey },
         create: {
-          ssoIssuer: env.ssoIssuerUrl,
-          ssoSubject: claims.sub,
+          ...userKey,
           email,
+          emailVerified,
           displayName,
           lastLoginAt: new Date(),
+          isSiteAdmin,
         },
         update: {
           email: email ?? undefined,
+          emailVerified: email === null ? undefined : emailVerified,
           displayName: displayName ?? undefined,
           lastLoginAt: new Date(),
+          isSiteAdmin,
         },
       });
+      if (user.disabledAt) {
+        res.status(403).json({ error: 'This account has been disabled' });
+        return;
+      }
+
+      await syncIdpTeamMemberships(user, claims, provider, env)
+        .then((synced) => {
+          if (synced && (synced.added || synced.updated || synced.removed)) {
+            console.log(
+              `[auth] Synced IdP teams for user ${user.id}: ${synced.added} added, ${synced.updated} updated, ${synced.removed} removed`
+            );
+          }
+        })
+        .catch((err) => {
+          console.error('[auth] Failed to sync IdP teams:', err instanceof Error ? err.message : err);
+        });
 
-      const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+      // Failures must never block sign-in; the invitations stay pending for an explicit accept.
+      if (user.emailVerified) {
+        await convertPendingWorkspaceInvitations(user).catch((err) => {
+          console.error(
+            '[auth] Failed to convert workspace invitations:',
+            err instanceof Error ? err.message : err
+          );
+        });
+        await convertPendingTeamInvitations(user).catch((err) => {
+          console.error(
+            '[auth] Failed to convert team invitations:',
+            err instanceof Error ? err.message : err
+          );
+        });
+      }
+
+      const now = new Date();
+      const expiresAt = computeSessionExpiry(now, now, env);
       const session = await prisma.session.create({
-        data: { userId: user.id, expiresAt },
+        data: {
+          userId: user.id,
+          createdAt: now,
+          lastSeenAt: now,
+          expiresAt,
+          idToken: tokens.id_token ?? null,
+          ssoSid: typeof claims.sid === 'string' ? claims.sid : null,
+          ...sessionClientInfo(req),
+        },
       });
       setSessionCookie(res, session.id, env, expiresAt);
       res.redirect(resolveUiReturnUrl(env.uiBaseUrl, loginState.returnTo));
     })
   );
 
+  /**
+   * Ends the local session and returns `logoutUrl`, the IdP end-session URL (with
+   * `id_token_hint`) the UI should navigate to so the IdP session ends too; null when the IdP
+   * does not support RP-initiated logout.
+   */
   router.post(
     '/logout',
     gate,
+    optionalAuth(env),
+    csrf,
     asyncHandler(async (req, res) => {
       const raw = req.cookies?.[SESSION_COOKIE] as string | undefined;
+      let logoutUrl: string | null = null;
       if (raw) {
         const verified = verifySessionCookie(raw, env.sessionSecrets);
         if (verified) {
-          await getPrisma()
-            .session.delete({ where: { id: verified.sessionId } })
-            .catch(() => undefined);
+          const session = await getPrisma()
+            .session.delete({ where: { id: verified.sessionId }, include: { user: true } })
+            .catch(() => null);
+          const provider = session && findSsoProviderByIssuer(env, session.user.ssoIssuer);
+          if (provider) {
+            logoutUrl = await buildIdpLogoutUrl(env, provider, session.idToken);
+          }
         }
       }
       clearSessionCookie(res, env);
-      res.json({ ok: true });
+      res.json({ ok: true, logoutUrl });
+    })
+  );
+
+  /**
+   * OpenID Connect Back-Channel Logout 1.0: the IdP posts a signed `logout_token`
+   * (form-encoded). A `sub` ends every session of that user; a token with only `sid` ends the
+   * sessions started in that IdP session.
+   */
+  router.post(
+    '/backchannel-logout',
+    gate,
+    asyncHandler(async (req, res) => {
+      res.set('Cache-Control', 'no-store');
+      const token = typeof req.body?.logout_token === 'string' ? req.body.logout_token : '';
+      if (!token) {
+        res
+          .status(400)
+          .json({ error: 'invalid_request', error_description: 'logout_token is required' });
+        return;
+      }
+      let subject: LogoutTokenSubject;
+      try {
+        subject = await verifyLogoutToken(env, token);
+      } catch (err) {
+        if (err instanceof LogoutTokenError) {
+          res.status(400).json({ error: 'invalid_request', error_description: err.message });
+          return;
+        }
+        throw err;
+      }
+      const { count } = await getPrisma().session.deleteMany({
+        where: subject.sub
+          ? { user: { ssoIssuer: subject.provider.issuerUrl, ssoSubject: subject.sub } }
+          : { ssoSid: subject.sid, user: { ssoIssuer: subject.provider.issuerUrl } },
+      });
+      console.log(`[auth] Back-channel logout ended ${count} session(s)`);
+      res.status(200).send();
+    })
+  );
+
+  router.get(
+    '/sessions',
+    gate,
+    requireAuth(env),
+    asyncHandler(async (req, res) => {
+      const sessions = await getPrisma().session.findMany({
+        where: { userId: req.user!.id, expiresAt: { gt: new Date() } },
+        orderBy: { lastSeenAt: 'desc' },
+      });
+      res.json(
+        sessions.map((s) => ({
+          id: s.id,
+          createdAt: s.createdAt,
+          lastSeenAt: s.lastSeenAt,
+          expiresAt: s.expiresAt,
+          userAgent: s.userAgent,
+          ipAddress: s.ipAddress,
+          current: s.id === req.sessionId,
+        }))
+      );
+    })
+  );
+
+  router.delete(
+    '/sessions/:sessionId',
+    gate,
+    requireAuth(env),
+    csrf,
+    asyncHandler(async (req, res) => {
+      const { count } = await getPrisma().session.deleteMany({
+        where: { id: req.params.sessionId, userId: req.user!.id },
+      });
+      if (count === 0) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      if (req.params.sessionId === req.sessionId) {
+        clearSessionCookie(res, env);
+      }
+      res.status(204).send();
+    })
+  );
+
+  /** Sign out everywhere; `?exceptCurrent=true` keeps the calling browser signed in. */
+  router.delete(
+    '/sessions',
+    gate,
+    requireAuth(env),
+    csrf,
+    asyncHandler(async (req, res) => {
+      const exceptCurrent = req.query.exceptCurrent === 'true';
+      const { count } = await getPrisma().session.deleteMany({
+        where: {
+          userId: req.user!.id,
+          ...(exceptCurrent && { id: { not: req.sessionId } }),
+        },
+      });
+      if (!exceptCurrent) {
+        clearSessionCookie(res, env);
+      }
+      res.json({ revoked: count });
     })
   );
 
@@ -0,0 +1,52 @@
+// Author: Preston Lee
+
+import crypto from 'node:crypto';
+
+export const SERVICE_ACCOUNT_CLIENT_ID_PREFIX = 'cqls_sa_';
+export const SERVICE_ACCOUNT_SECRET_PREFIX = 'cqls_sas_';
+/** `User.ssoIssuer` of service account backing users; no SSO provider ever uses it. */
+export const SERVICE_ACCOUNT_ISSUER = 'urn:cql-studio:service-account';
+
+export function generateServiceAccountClientId(): string {
+  return `${SERVICE_ACCOUNT_CLIENT_ID_PREFIX}${crypto.randomBytes(9).toString('base64url')}`;
+}
+
+/** A new random secret; only `secretHash` is stored, `secret` is shown once. */
+export function generateServiceAccountSecret(): { secret: string; secretHash: string } {
+  const secret = `${SERVICE_ACCOUNT_SECRET_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { secret, secretHash: hashServiceAccountSecret(secret) };
+}
+
+export function hashServiceAccountSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret, 'utf8').digest('hex');
+}
+
+export function serviceAccountSecretMatches(secret: string, secretHash: string): boolean {
+  const actual = Buffer.from(hashServiceAccountSecret(secret), 'hex');
+  const expected = Buffer.from(secretHash, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Client credentials from `Authorization: Basic base64(clientId:clientSecret)` (the OAuth
+ * `client_secret_basic` shape). Null for other schemes or non-service-account client ids.
+ */
+export function readServiceAccountCredentials(
+  header: string | undefined
+): { clientId: string; clientSecret: string } | null {
+  const match = /^Basic\s+([A-Za-z0-9+/=]+)\s*$/i.exec(header ?? '');
+  if (!match) {
+    return null;
+  }
+  const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+  const colon = decoded.indexOf(':');
+  if (colon <= 0) {
+    return null;
+  }
+  const clientId = decoded.slice(0, colon);
+  const clientSecret = decoded.slice(colon + 1);
+  if (!clientId.startsWith(SERVICE_ACCOUNT_CLIENT_ID_PREFIX) || !clientSecret) {
+    return null;
+  }
+  return { clientId, clientSecret };
+}
@@ -1,18 +1,34 @@
 // Author: Preston Lee
 
 import type { Request, Response, NextFunction } from 'express';
-import type { User } from '@prisma/client';
+import type { Session, User } from '@prisma/client';
 import { getPrisma } from '../db/prisma.js';
 import type { ServerEnv } from '../config/env.js';
 import { hmacSign, hmacVerify } from './hmac.js';
+import {
+  hashPersonalAccessToken,
+  personalAccessTokenAllows,
+  readBearerPersonalAccessToken,
+} from './personal-access-token.js';
+import {
+  readServiceAccountCredentials,
+  serviceAccountSecretMatches,
+} from './service-account-credentials.js';
 
 export const SESSION_COOKIE = 'cql_studio_session';
+/** Minimum gap between `Session.lastSeenAt` writes for the same session. */
+export const SESSION_LAST_SEEN_THROTTLE_MS = 5 * 60 * 1000;
+const SESSION_USER_AGENT_MAX_LENGTH = 512;
 
 declare global {
   namespace Express {
     interface Request {
       user?: User;
       sessionId?: string;
+      /** Set instead of `sessionId` when the request authenticated with a personal access token. */
+      personalAccessTokenId?: string;
+      /** Set instead of `sessionId` when a service account authenticated with client credentials. */
+      serviceAccountId?: string;
     }
   }
 }
@@ -62,6 +78,63 @@ export function clearSessionCookie(res: Response, env: ServerEnv): void {
   res.clearCookie(SESSION_COOKIE, sessionCookieOptions(env));
 }
 
+export type SessionLifetime = Pick<ServerEnv, 'sessionAbsoluteTtlMs' | 'sessionIdleTimeoutMs'>;
+
+/**
+ * Expiry for a session created at `createdAt` and last active at `now`: the idle deadline when
+ * an idle timeout is configured, never later than the absolute cap.
+ */
+export function computeSessionExpiry(createdAt: Date, now: Date, lifetime: SessionLifetime): Date {
+  const absolute = createdAt.getTime() + lifetime.sessionAbsoluteTtlMs;
+  if (lifetime.sessionIdleTimeoutMs === null) {
+    return new Date(absolute);
+  }
+  return new Date(Math.min(absolute, now.getTime() + lifetime.sessionIdleTimeoutMs));
+}
+
+/**
+ * Also re-checks the current limits against `createdAt` and `lastSeenAt`, so lowering the
+ * configured lifetimes ends existing sessions without waiting for their stored `expiresAt`.
+ */
+export function isSessionExpired(
+  session: Pick<Session, 'createdAt' | 'lastSeenAt' | 'expiresAt'>,
+  now: Date,
+  lifetime: SessionLifetime
+): boolean {
+  const t = now.getTime();
+  return (
+    session.expiresAt.getTime() <= t ||
+    session.createdAt.getTime() + lifetime.sessionAbsoluteTtlMs <= t ||
+    (lifetime.sessionIdleTimeoutMs !== null &&
+      session.lastSeenAt.getTime() + lifetime.sessionIdleTimeoutMs <= t)
+  );
+}
+
+/**
+ * Activity is recorded at most every 5 minutes, or every quarter of the idle timeout when that
+ * is shorter, so a session in use never runs out between writes.
+ */
+export function shouldTouchSession(
+  lastSeenAt: Date,
+  now: Date = new Date(),
+  idleTimeoutMs: number | null = null
+): boolean {
+  const interval =
+    idleTimeoutMs === null
+      ? SESSION_LAST_SEEN_THROTTLE_MS
+      : Math.min(SESSION_LAST_SEEN_THROTTLE_MS, Math.floor(idleTimeoutMs / 4));
+  return now.getTime() - lastSeenAt.getTime() >= interval;
+}
+
+/**
+ * Client metadata stored on a new session so users can recognize it in their session list. The
+ * address is the direct peer unless CQL_STUDIO_SERVER_TRUST_PROXY is set.
+ */
+export function sessionClientInfo(req: Request): { userAgent: string | null; ipAddress: string | null } {
+  const userAgent = req.get('user-agent')?.slice(0, SESSION_USER_AGENT_MAX_LENGTH) || null;
+  return { userAgent, ipAddress: req.ip ?? null };
+}
+
 export function requireSsoConfigured(env: ServerEnv) {
   return (_req: Request, res: Response, next: NextFunction): void => {
     if (!env.ssoConfigured) {
@@ -79,6 +152,16 @@ export function optionalAuth(env: ServerEnv) {
       return;
     }
     try {
+      const bearer = readBearerPersonalAccessToken(req.get('authorization'));
+      if (bearer) {
+        await authenticatePersonalAccessToken(req, res, next, bearer);
+        return;
+      }
+      const credentials = readServiceAccountCredentials(req.get('authorization'));
+      if (credentials) {
+        await authenticateServiceAccount(req, next, credentials);
+        return;
+      }
       const raw = req.cookies?.[SESSION_COOKIE] as string | undefined;
       if (!raw) {
         next();
@@ -94,7 +177,8 @@ export function optionalAuth(env: ServerEnv) {
         where: { id: verified.sessionId },
         include: { user: true },
       });
-      if (!session || session.expiresAt < new Date()) {
+      const now = new Date();
+      if (!session || isSessionExpired(session, now, env) || session.user.disabledAt) {
         if (session) {
           await prisma.session.delete({ where: { id: verified.sessionId } }).catch(() => undefined);
         }
@@ -103,9 +187,22 @@ export function optionalAuth(env: ServerEnv) {
       }
       req.user = session.user;
       req.sessionId = session.id;
-      // Lazy re-key: cookie verified with a previous secret → rewrite with current secret
-      if (verified.usedPreviousSecret) {
-        setSessionCookie(res, session.id, env, session.expiresAt);
+      let cookieExpiresAt: Date | null = verified.usedPreviousSecret ? session.expiresAt : null;
+      if (shouldTouchSession(session.lastSeenAt, now, env.sessionIdleTimeoutMs)) {
+        // Sliding expiry: activity pushes the idle deadline out (capped by the absolute TTL).
+        const expiresAt = computeSessionExpiry(session.createdAt, now, env);
+        if (expiresAt.getTime() !== session.expiresAt.getTime()) {
+          cookieExpiresAt = expiresAt;
+        }
+        // Best effort: a failed activity write must not fail the request.
+        prisma.session
+          .update({ where: { id: session.id }, data: { lastSeenAt: now, expiresAt } })
+          .catch(() => undefined);
+      }
+      // Also covers the lazy re-key: a cookie verified with a previous secret is rewritten
+      // with the current one.
+      if (cookieExpiresAt) {
+        setSessionCookie(res, session.id, env, cookieExpiresAt);
       }
       next();
     } catch (err) {
@@ -114,6 +211,108 @@ export function optionalAuth(env: ServerEnv) {
   };
 }
 
+/**
+ * `Authorization: Bearer` personal access tokens take precedence over the session cookie.
+ * Unknown or expired tokens and tokens of disabled users leave the request anonymous; a valid
+ * token whose scope does not cover the method is refused outright.
+ */
+async function authenticatePersonalAccessToken(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  token: string
+): Promise<void> {
+  const prisma = getPrisma();
+  const now = new Date();
+  const pat = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashPersonalAccessToken(token) },
+    include: { user: true },
+  });
+  if (!pat || pat.expiresAt <= now || pat.user.serviceAccountId || pat.user.disabledAt) {
+    next();
+    return;
+  }
+  if (!personalAccessTokenAllows(pat.scopes, req.method)) {
+    res.status(403).json({ error: 'Personal access token scope does not allow this request' });
+    return;
+  }
+  req.user = pat.user;
+  req.personalAccessTokenId = pat.id;
+  if (!pat.lastUsedAt || shouldTouchSession(pat.lastUsedAt, now)) {
+    prisma.personalAccessToken
+      .update({ where: { id: pat.id }, data: { lastUsedAt: now } })
+      .catch(() => undefined);
+  }
+  next();
+}
+
+/**
+ * Service accounts send `Authorization: Basic` client credentials and act as their backing
+ * user. Deleted or disabled accounts, accounts of trashed teams and wrong secrets leave the
+ * request anonymous.
+ */
+async function authenticateServiceAccount(
+  req: Request,
+  next: NextFunction,
+  credentials: { clientId: string; clientSecret: string }
+): Promise<void> {
+  const prisma = getPrisma();
+  const account = await prisma.serviceAccount.findUnique({
+    where: { clientId: credentials.clientId },
+    include: { user: true, team: { select: { deletedAt: true } } },
+  });
+  if (
+    !account?.user ||
+    account.user.disabledAt ||
+    account.deletedAt ||
+    account.team.deletedAt ||
+    !serviceAccountSecretMatches(credentials.clientSecret, account.secretHash)
+  ) {
+    next();
+    return;
+  }
+  req.user = account.user;
+  req.serviceAccountId = account.id;
+  const now = new Date();
+  if (!account.lastUsedAt || shouldTouchSession(account.lastUsedAt, now)) {
+    prisma.serviceAccount
+      .update({ where: { id: account.id }, data: { lastUsedAt: now } })
+      .catch(() => undefined);
+  }
+  next();
+}
+
+/**
+ * Re-checks the credential a long-lived request (an event stream) authenticated with. Returns the
+ * current user, or null once that session, token or service account is gone or expired, or the
+ * user is disabled.
+ */
+export async function reloadRequestUser(req: Request, env: ServerEnv): Promise<User | null> {
+  const prisma = getPrisma();
+  const now = new Date();
+  let user: User | null = null;
+  if (req.sessionId) {
+    const session = await prisma.session.findUnique({
+      where: { id: req.sessionId },
+      include: { user: true },
+    });
+    user = session && !isSessionExpired(session, now, env) ? session.user : null;
+  } else if (req.personalAccessTokenId) {
+    const pat = await prisma.personalAccessToken.findUnique({
+      where: { id: req.personalAccessTokenId },
+      include: { user: true },
+    });
+    user = pat && pat.expiresAt > now ? pat.user : null;
+  } else if (req.serviceAccountId) {
+    const account = await prisma.serviceAccount.findUnique({
+      where: { id: req.serviceAccountId },
+      include: { user: true, team: { select: { deletedAt: true } } },
+    });
+    user = account && !account.deletedAt && !account.team.deletedAt ? account.user : null;
+  }
+  return user && !user.disabledAt ? user : null;
+}
+
 export function requireAuth(env: ServerEnv) {
   const optional = optionalAuth(env);
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -131,10 +330,12 @@ export function requireAuth(env: ServerEnv) {
   };
 }
 
+/** Fields safe to show other users; a profile display name override wins over the IdP name. */
 export function publicUser(user: User) {
   return {
     id: user.id,
     email: user.email,
-    displayName: user.displayName,
+    displayName: user.displayNameOverride ?? user.displayName,
+    avatarUrl: user.avatarUrl,
   };
 }
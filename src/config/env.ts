@@ -1,34 +1,189 @@
 // Author: Preston Lee
 
+/** One `group=team-slug[:ADMIN|MEMBER]` entry of CQL_STUDIO_SERVER_SSO_GROUP_TEAMS. */
+export interface GroupTeamMapping {
+  group: string;
+  teamSlug: string;
+  role: 'ADMIN' | 'MEMBER';
+}
+
+/** One OIDC identity provider users can sign in with. */
+export interface SsoProvider {
+  /** Stable id used in `/api/auth/login?provider=`; `default` for the unprefixed variables. */
+  id: string;
+  /** Label shown on the sign-in choice. */
+  name: string;
+  /** Stored as `User.ssoIssuer`; users are keyed by issuer + subject. */
+  issuerUrl: string;
+  clientId: string;
+  clientSecret: string;
+  /** Previous OIDC client secrets accepted during rotation (token exchange fallback). */
+  clientSecretPrevious: string[];
+  scopes: string;
+  /** Let the `email` claim convert invitations without `email_verified: true`. */
+  trustUnverifiedEmail: boolean;
+  /** Groups claim drives team mappings (`_TRUST_GROUPS`); off so other IdPs cannot assert them. */
+  trustGroups: boolean;
+}
+
+export const DEFAULT_SSO_PROVIDER_ID = 'default';
+
 export interface ServerEnv {
   port: number;
   nodeEnv: string;
+  /** Express `trust proxy` setting; false uses the direct peer as `req.ip`. */
+  trustProxy: boolean | number | string;
   corsOrigin: string;
   /** Public origin of the CQL Studio UI (no trailing slash). Used for post-login redirects. */
   uiBaseUrl: string;
   ssoConfigured: boolean;
-  ssoIssuerUrl: string;
-  ssoClientId: string;
-  ssoClientSecret: string;
-  /** Previous OIDC client secrets accepted during rotation (token exchange fallback). */
-  ssoClientSecretPrevious: string[];
+  /** Configured identity providers, in display order; the first is used when none is chosen. */
+  ssoProviders: SsoProvider[];
+  /** Shared by every provider; the login state cookie records which provider is in flight. */
   ssoRedirectUrl: string;
-  ssoScopes: string;
   /** Primary secret used to sign new cookies. */
   sessionSecret: string;
   /** Verification order: [current, ...previous]. */
   sessionSecrets: string[];
   databaseUrl: string;
+  /** Days a trashed workspace or team is kept before it is permanently purged. */
+  trashRetentionDays: number;
+  /** When true, `GET /api/users` searches every user instead of only team-mates. */
+  userDirectoryGlobal: boolean;
+  /** Hard cap on a session's lifetime, measured from sign-in. */
+  sessionAbsoluteTtlMs: number;
+  /** Inactivity after which a session ends; null keeps sessions alive until the absolute cap. */
+  sessionIdleTimeoutMs: number | null;
+  /** How often the background maintenance job purges expired rows. */
+  maintenanceIntervalMs: number;
+  /** Maximum rows the maintenance job deletes per statement. */
+  maintenanceBatchSize: number;
+  /** ID token claim holding the user's IdP groups. */
+  ssoGroupsClaim: string;
+  /** IdP group → team mappings synced at sign-in from `trustGroups` providers; empty disables. */
+  ssoGroupTeamMappings: GroupTeamMapping[];
+  /** `providerId:sub` keys of users made site administrators at sign-in (subs are per issuer). */
+  siteAdminSubjects: string[];
+  /** IdP group whose members are site administrators; honored from `trustGroups` providers only. */
+  siteAdminGroup: string | null;
+  /** Bearer tokens accepted on /scim/v2 ([current, ...previous]); empty disables SCIM. */
+  scimTokens: string[];
+  /** Provider whose users SCIM provisions (`User.ssoIssuer`); the first provider by default. */
+  scimProviderId: string | null;
 }
 
+const MINUTE_MS = 60 * 1000;
+
 function requiredWhenSso(name: string, value: string | undefined, ssoOn: boolean): string {
   const trimmed = value?.trim() ?? '';
   if (ssoOn && !trimmed) {
-    throw new Error(`${name} is required when CQL_STUDIO_SERVER_SSO_ISSUER_URL is set`);
+    throw new Error(`${name} is required when SSO is configured`);
   }
   return trimmed;
 }
 
+/** Digits only: `1.5`, `30m` or `10abc` are rejected rather than truncated. */
+export function parsePositiveInt(name: string, raw: string | undefined, fallback: number): number {
+  const trimmed = raw?.trim() ?? '';
+  if (!trimmed) {
+    return fallback;
+  }
+  const value = /^\d+$/.test(trimmed) ? Number.parseInt(trimmed, 10) : 0;
+  if (!Number.isSafeInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * CQL_STUDIO_SERVER_TRUST_PROXY: `true`, a hop count, or Express's address list syntax
+ * (`loopback`, `10.0.0.0/8, 192.168.1.1`). Unset or `false` trusts no proxy.
+ */
+export function parseTrustProxy(raw: string | undefined): boolean | number | string {
+  const value = raw?.trim() ?? '';
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(value) ? Number.parseInt(value, 10) : value;
+}
+
+/**
+ * Parses `group=team-slug[:ADMIN|MEMBER]` entries separated by commas or newlines, e.g.
+ * `measure-authors=measure-authors,cql-admins=measure-authors:ADMIN`. Role defaults to MEMBER.
+ */
+export function parseGroupTeamMappings(raw: string | undefined): GroupTeamMapping[] {
+  if (!raw?.trim()) {
+    return [];
+  }
+  const mappings: GroupTeamMapping[] = [];
+  for (const part of raw.split(/[,\n]+/)) {
+    const entry = part.trim();
+    if (!entry) {
+      continue;
+    }
+    const match = /^(.+?)=([a-z0-9]+(?:-[a-z0-9]+)*)(?::(ADMIN|MEMBER))?$/i.exec(entry);
+    if (!match) {
+      throw new Error(
+        `CQL_STUDIO_SERVER_SSO_GROUP_TEAMS entry "${entry}" must look like group=team-slug[:ADMIN|MEMBER]`
+      );
+    }
+    mappings.push({
+      group: match[1].trim(),
+      teamSlug: match[2].toLowerCase(),
+      role: (match[3]?.toUpperCase() ?? 'MEMBER') as GroupTeamMapping['role'],
+    });
+  }
+  return mappings;
+}
+
+/**
+ * CQL_STUDIO_SERVER_SITE_ADMIN_SUBJECTS: comma-separated `provider-id:sub` entries. A bare `sub`
+ * is rejected because subjects are only unique per issuer.
+ */
+export function parseSiteAdminSubjects(
+  raw: string | undefined,
+  providers: readonly Pick<SsoProvider, 'id'>[]
+): string[] {
+  const subjects: string[] = [];
+  for (const part of (raw ?? '').split(',')) {
+    const entry = part.trim();
+    if (!entry) {
+      continue;
+    }
+    const colon = entry.indexOf(':');
+    const providerId = colon > 0 ? entry.slice(0, colon) : '';
+    if (!providerId || colon === entry.length - 1) {
+      throw new Error(
+        `CQL_STUDIO_SERVER_SITE_ADMIN_SUBJECTS entry "${entry}" must look like provider-id:sub`
+      );
+    }
+    if (!providers.some((p) => p.id === providerId)) {
+      throw new Error(`CQL_STUDIO_SERVER_SITE_ADMIN_SUBJECTS: unknown SSO provider "${providerId}"`);
+    }
+    subjects.push(entry);
+  }
+  return subjects;
+}
+
+/**
+ * Group mappings and the site admin group only read groups from `trustGroups` providers, so
+ * `configured` (the names of the group settings that are set) would silently do nothing without
+ * one. Refuses to start instead.
+ */
+export function assertGroupsTrusted(
+  configured: readonly string[],
+  providers: readonly Pick<SsoProvider, 'trustGroups'>[]
+): void {
+  if (configured.length && !providers.some((p) => p.trustGroups)) {
+    throw new Error(
+      `${configured.join(' and ')} need an SSO provider with TRUST_GROUPS=true. Refusing to start.`
+    );
+  }
+}
+
 function parseSecretList(raw: string | undefined): string[] {
   if (!raw?.trim()) {
     return [];
@@ -46,9 +201,80 @@ function parseSecretList(raw: string | undefined): string[] {
   return out;
 }
 
+/** Variable name for a provider setting; the default provider keeps the unprefixed names. */
+function ssoProviderVar(providerId: string, suffix: string): string {
+  return providerId === DEFAULT_SSO_PROVIDER_ID
+    ? `CQL_STUDIO_SERVER_SSO_${suffix}`
+    : `CQL_STUDIO_SERVER_SSO_${providerId.toUpperCase().replace(/-/g, '_')}_${suffix}`;
+}
+
+/**
+ * The default provider comes from CQL_STUDIO_SERVER_SSO_ISSUER_URL and friends; further
+ * providers are listed by id in CQL_STUDIO_SERVER_SSO_PROVIDERS and configured with
+ * CQL_STUDIO_SERVER_SSO_<ID>_ISSUER_URL, _CLIENT_ID, _CLIENT_SECRET, _CLIENT_SECRET_PREVIOUS,
+ * _SCOPES, _NAME, _TRUST_UNVERIFIED_EMAIL and _TRUST_GROUPS.
+ */
+export function loadSsoProviders(
+  vars: Record<string, string | undefined>,
+  nodeEnv: string
+): SsoProvider[] {
+  const ids = vars.CQL_STUDIO_SERVER_SSO_ISSUER_URL?.trim() ? [DEFAULT_SSO_PROVIDER_ID] : [];
+  for (const raw of (vars.CQL_STUDIO_SERVER_SSO_PROVIDERS ?? '').split(/[,\s]+/)) {
+    const id = raw.trim().toLowerCase();
+    if (!id) {
+      continue;
+    }
+    if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(id) || id === DEFAULT_SSO_PROVIDER_ID) {
+      throw new Error(
+        `CQL_STUDIO_SERVER_SSO_PROVIDERS entry "${id}" must be a lowercase slug other than "${DEFAULT_SSO_PROVIDER_ID}"`
+      );
+    }
+    if (!ids.includes(id)) {
+      ids.push(id);
+    }
+  }
+
+  const providers = ids.map((id): SsoProvider => {
+    const read = (suffix: string) => vars[ssoProviderVar(id, suffix)]?.trim() ?? '';
+    const required = (suffix: string) =>
+      requiredWhenSso(ssoProviderVar(id, suffix), read(suffix), true);
+    const issuerUrl = required('ISSUER_URL');
+    if (issuerUrl.startsWith('http://') && nodeEnv !== 'development') {
+      throw new Error(
+        'HTTP SSO issuer URLs are only allowed when CQL_STUDIO_SERVER_NODE_ENV=development'
+      );
+    }
+    const clientSecret = required('CLIENT_SECRET');
+    return {
+      id,
+      name: read('NAME') || (id === DEFAULT_SSO_PROVIDER_ID ? 'Single sign-on' : id),
+      issuerUrl,
+      clientId: required('CLIENT_ID'),
+      clientSecret,
+      clientSecretPrevious: parseSecretList(read('CLIENT_SECRET_PREVIOUS')).filter(
+        (s) => s !== clientSecret
+      ),
+      scopes: read('SCOPES') || 'openid profile email',
+      trustUnverifiedEmail: read('TRUST_UNVERIFIED_EMAIL') === 'true',
+      trustGroups: read('TRUST_GROUPS') === 'true',
+    };
+  });
+
+  const issuers = new Set<string>();
+  for (const provider of providers) {
+    const issuer = provider.issuerUrl.replace(/\/+$/, '');
+    if (issuers.has(issuer)) {
+      throw new Error(`SSO issuer ${provider.issuerUrl} is configured for more than one provider`);
+    }
+    issuers.add(issuer);
+  }
+  return providers;
+}
+
 export function loadEnv(): ServerEnv {
-  const ssoIssuerUrl = process.env.CQL_STUDIO_SERVER_SSO_ISSUER_URL?.trim() ?? '';
-  const ssoConfigured = ssoIssuerUrl.length > 0;
+  const nodeEnv = process.env.CQL_STUDIO_SERVER_NODE_ENV || 'development';
+  const ssoProviders = loadSsoProviders(process.env, nodeEnv);
+  const ssoConfigured = ssoProviders.length > 0;
 
   const databaseUrl = process.env.CQL_STUDIO_SERVER_DATABASE_URL?.trim() ?? '';
   if (ssoConfigured && !databaseUrl) {
@@ -66,15 +292,6 @@ export function loadEnv(): ServerEnv {
     process.env.CQL_STUDIO_SERVER_SESSION_SECRET_PREVIOUS
   ).filter((s) => s !== sessionSecret);
 
-  const ssoClientSecret = requiredWhenSso(
-    'CQL_STUDIO_SERVER_SSO_CLIENT_SECRET',
-    process.env.CQL_STUDIO_SERVER_SSO_CLIENT_SECRET,
-    ssoConfigured
-  );
-  const ssoClientSecretPrevious = parseSecretList(
-    process.env.CQL_STUDIO_SERVER_SSO_CLIENT_SECRET_PREVIOUS
-  ).filter((s) => s !== ssoClientSecret);
-
   const corsOrigin = process.env.CQL_STUDIO_SERVER_CORS_ORIGIN?.trim() || 'http://localhost:4200';
   const uiBaseUrlRaw = requiredWhenSso(
     'CQL_STUDIO_SERVER_UI_BASE_URL',
@@ -83,35 +300,85 @@ export function loadEnv(): ServerEnv {
   );
   const uiBaseUrl = (uiBaseUrlRaw || corsOrigin).replace(/\/+$/, '');
 
-  const nodeEnv = process.env.CQL_STUDIO_SERVER_NODE_ENV || 'development';
-  if (ssoConfigured && ssoIssuerUrl.startsWith('http://') && nodeEnv !== 'development') {
-    throw new Error(
-      'HTTP SSO issuer URLs are only allowed when CQL_STUDIO_SERVER_NODE_ENV=development'
-    );
+  const ssoGroupTeamMappings = parseGroupTeamMappings(
+    process.env.CQL_STUDIO_SERVER_SSO_GROUP_TEAMS
+  );
+  const siteAdminGroup = process.env.CQL_STUDIO_SERVER_SITE_ADMIN_GROUP?.trim() || null;
+  assertGroupsTrusted(
+    [
+      ...(ssoGroupTeamMappings.length ? ['CQL_STUDIO_SERVER_SSO_GROUP_TEAMS'] : []),
+      ...(siteAdminGroup ? ['CQL_STUDIO_SERVER_SITE_ADMIN_GROUP'] : []),
+    ],
+    ssoProviders
+  );
+
+  const scimToken = process.env.CQL_STUDIO_SERVER_SCIM_TOKEN?.trim() ?? '';
+  const scimProviderId = process.env.CQL_STUDIO_SERVER_SCIM_PROVIDER?.trim() || null;
+  if (scimProviderId && !ssoProviders.some((p) => p.id === scimProviderId)) {
+    throw new Error(`CQL_STUDIO_SERVER_SCIM_PROVIDER: unknown SSO provider "${scimProviderId}"`);
   }
 
   return {
     port: Number.parseInt(process.env.CQL_STUDIO_SERVER_PORT || '3003', 10),
     nodeEnv,
+    trustProxy: parseTrustProxy(process.env.CQL_STUDIO_SERVER_TRUST_PROXY),
     corsOrigin,
     uiBaseUrl,
     ssoConfigured,
-    ssoIssuerUrl,
-    ssoClientId: requiredWhenSso(
-      'CQL_STUDIO_SERVER_SSO_CLIENT_ID',
-      process.env.CQL_STUDIO_SERVER_SSO_CLIENT_ID,
-      ssoConfigured
-    ),
-    ssoClientSecret,
-    ssoClientSecretPrevious,
+    ssoProviders,
     ssoRedirectUrl: requiredWhenSso(
       'CQL_STUDIO_SERVER_SSO_REDIRECT_URL',
       process.env.CQL_STUDIO_SERVER_SSO_REDIRECT_URL,
       ssoConfigured
     ),
-    ssoScopes: process.env.CQL_STUDIO_SERVER_SSO_SCOPES?.trim() || 'openid profile email',
     sessionSecret,
     sessionSecrets: sessionSecret ? [sessionSecret, ...previousSessionSecrets] : [],
     databaseUrl,
+    trashRetentionDays: parsePositiveInt(
+      'CQL_STUDIO_SERVER_TRASH_RETENTION_DAYS',
+      process.env.CQL_STUDIO_SERVER_TRASH_RETENTION_DAYS,
+      30
+    ),
+    userDirectoryGlobal: process.env.CQL_STUDIO_SERVER_USER_DIRECTORY_GLOBAL?.trim() === 'true',
+    sessionAbsoluteTtlMs:
+      parsePositiveInt(
+        'CQL_STUDIO_SERVER_SESSION_ABSOLUTE_TTL_MINUTES',
+        process.env.CQL_STUDIO_SERVER_SESSION_ABSOLUTE_TTL_MINUTES,
+        7 * 24 * 60
+      ) * MINUTE_MS,
+    sessionIdleTimeoutMs: process.env.CQL_STUDIO_SERVER_SESSION_IDLE_TIMEOUT_MINUTES?.trim()
+      ? parsePositiveInt(
+          'CQL_STUDIO_SERVER_SESSION_IDLE_TIMEOUT_MINUTES',
+          process.env.CQL_STUDIO_SERVER_SESSION_IDLE_TIMEOUT_MINUTES,
+          0
+        ) * MINUTE_MS
+      : null,
+    maintenanceIntervalMs:
+      parsePositiveInt(
+        'CQL_STUDIO_SERVER_MAINTENANCE_INTERVAL_MINUTES',
+        process.env.CQL_STUDIO_SERVER_MAINTENANCE_INTERVAL_MINUTES,
+        60
+      ) * MINUTE_MS,
+    maintenanceBatchSize: parsePositiveInt(
+      'CQL_STUDIO_SERVER_MAINTENANCE_BATCH_SIZE',
+      process.env.CQL_STUDIO_SERVER_MAINTENANCE_BATCH_SIZE,
+      500
+    ),
+    ssoGroupsClaim: process.env.CQL_STUDIO_SERVER_SSO_GROUPS_CLAIM?.trim() || 'groups',
+    ssoGroupTeamMappings,
+    siteAdminSubjects: parseSiteAdminSubjects(
+      process.env.CQL_STUDIO_SERVER_SITE_ADMIN_SUBJECTS,
+      ssoProviders
+    ),
+    siteAdminGroup,
+    scimTokens: scimToken
+      ? [
+          scimToken,
+          ...parseSecretList(process.env.CQL_STUDIO_SERVER_SCIM_TOKEN_PREVIOUS).filter(
+            (t) => t !== scimToken
+          ),
+        ]
+      : [],
+    scimProviderId,
   };
 }
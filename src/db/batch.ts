@@ -0,0 +1,24 @@
+// Author: Preston Lee
+
+/**
+ * Deletes rows in chunks of `batchSize`: `selectIds` returns up to `take` ids still matching
+ * the caller's filter and `deleteIds` removes them. Keeps each statement (and its locks) small
+ * when a backlog has built up. Returns the total number of rows deleted.
+ */
+export async function deleteInBatches(
+  batchSize: number,
+  selectIds: (take: number) => Promise<{ id: string }[]>,
+  deleteIds: (ids: string[]) => Promise<number>
+): Promise<number> {
+  let deleted = 0;
+  for (;;) {
+    const batch = await selectIds(batchSize);
+    if (!batch.length) {
+      return deleted;
+    }
+    deleted += await deleteIds(batch.map((row) => row.id));
+    if (batch.length < batchSize) {
+      return deleted;
+    }
+  }
+}
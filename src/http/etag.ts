@@ -0,0 +1,67 @@
+// Author: Preston Lee
+
+import type { Request, Response } from 'express';
+
+/** Any row with an `@updatedAt` column can be versioned for optimistic concurrency. */
+export interface Versioned {
+  updatedAt: Date;
+}
+
+/** Strong entity tag derived from `updatedAt` (millisecond precision, matching TIMESTAMP(3)). */
+export function entityTag(row: Versioned): string {
+  return `"${row.updatedAt.getTime().toString(36)}"`;
+}
+
+export function setEntityTag(res: Response, row: Versioned): void {
+  res.setHeader('ETag', entityTag(row));
+}
+
+/**
+ * RFC 9110 If-Match evaluation: absent header passes, `*` matches any existing
+ * representation, otherwise one of the listed tags must strongly equal `current`.
+ * Weak tags (W/"…") never match.
+ */
+export function ifMatchSatisfied(header: string | undefined, current: string): boolean {
+  if (header === undefined) {
+    return true;
+  }
+  const trimmed = header.trim();
+  if (trimmed === '*') {
+    return true;
+  }
+  const tags = trimmed.match(/(?:W\/)?"[^"]*"/g) ?? [];
+  return tags.some((tag) => !tag.startsWith('W/') && tag === current);
+}
+
+/**
+ * Sends 412 Precondition Failed when the request's If-Match does not match `row`.
+ * Returns true when the caller may proceed with the mutation.
+ */
+export function checkIfMatch(req: Request, res: Response, row: Versioned): boolean {
+  const current = entityTag(row);
+  if (ifMatchSatisfied(req.get('If-Match'), current)) {
+    return true;
+  }
+  res.setHeader('ETag', current);
+  res.status(412).json({
+    error: 'Precondition Failed: the resource was modified by someone else',
+    etag: current,
+  });
+  return false;
+}
+
+/**
+ * `where` fragment for the write that follows `checkIfMatch`. A tagged If-Match pins the write
+ * to the version that was checked, so of two writers holding the same tag only the first one's
+ * `updateMany`/`deleteMany` matches a row; the other gets `count === 0` and should answer with
+ * `sendPreconditionFailed`. Requests without If-Match (or with `*`) stay last-writer-wins.
+ */
+export function ifMatchWhere(req: Request, row: Versioned): { updatedAt?: Date } {
+  const header = req.get('If-Match')?.trim();
+  return header === undefined || header === '*' ? {} : { updatedAt: row.updatedAt };
+}
+
+/** 412 for a conditional write that lost the race after `checkIfMatch` passed. */
+export function sendPreconditionFailed(res: Response): void {
+  res.status(412).json({ error: 'Precondition Failed: the resource was modified by someone else' });
+}
@@ -0,0 +1,102 @@
+// Author: Preston Lee
+
+import type { Request, Response } from 'express';
+
+export const SSE_HEARTBEAT_MS = 25_000;
+/** Client reconnect delay advertised via the `retry:` field. */
+export const SSE_RETRY_MS = 5_000;
+
+export interface EventStream {
+  /** Writes one event; `data` is JSON-encoded. No-op once the stream is closed. */
+  send(event: string, data: unknown, id?: string): void;
+  close(): void;
+  /** Registers cleanup to run once when the client disconnects or the stream is closed. */
+  onClose(fn: () => void): void;
+  readonly closed: boolean;
+}
+
+export interface EventStreamOptions {
+  heartbeatMs?: number;
+  /** Runs on each heartbeat; throwing or resolving false closes the stream (e.g. access revoked). */
+  onHeartbeat?: () => boolean | Promise<boolean>;
+}
+
+/** Switches the response to `text/event-stream` and keeps it open with comment heartbeats. */
+export function openEventStream(
+  req: Request,
+  res: Response,
+  options: EventStreamOptions = {}
+): EventStream {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable proxy buffering (nginx) so events are delivered immediately.
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+  res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+  const cleanups: (() => void)[] = [];
+  let closed = false;
+
+  const close = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeat);
+    for (const fn of cleanups.splice(0)) {
+      try {
+        fn();
+      } catch (err) {
+        console.error('[sse] Cleanup failed:', err instanceof Error ? err.message : err);
+      }
+    }
+    res.end();
+  };
+
+  const heartbeat = setInterval(() => {
+    if (closed) {
+      return;
+    }
+    res.write(': heartbeat\n\n');
+    if (!options.onHeartbeat) {
+      return;
+    }
+    Promise.resolve()
+      .then(options.onHeartbeat)
+      .then((keepOpen) => {
+        if (!keepOpen) {
+          close();
+        }
+      })
+      .catch(close);
+  }, options.heartbeatMs ?? SSE_HEARTBEAT_MS);
+
+  req.on('close', close);
+
+  return {
+    send(event, data, id) {
+      if (closed) {
+        return;
+      }
+      const lines = [`event: ${event}`];
+      if (id) {
+        lines.push(`id: ${id}`);
+      }
+      lines.push(`data: ${JSON.stringify(data)}`);
+      res.write(`${lines.join('\n')}\n\n`);
+    },
+    close,
+    onClose(fn) {
+      if (closed) {
+        fn();
+        return;
+      }
+      cleanups.push(fn);
+    },
+    get closed() {
+      return closed;
+    },
+  };
+}
@@ -0,0 +1,124 @@
+// Author: Preston Lee
+
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import type { User } from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import type { ServerEnv } from '../config/env.js';
+import { requireCsrf } from '../auth/csrf.js';
+import { requireAuth, requireSsoConfigured } from '../auth/session.js';
+import { verifyInvitationToken, type InvitationKind } from '../auth/invitation-token.js';
+import {
+  acceptTeamInvitation,
+  declineTeamInvitation,
+  listPendingTeamInvitationsFor,
+} from '../team/invitations.js';
+import {
+  acceptWorkspaceInvitation,
+  declineWorkspaceInvitation,
+  InvitationError,
+  invitationMatchesUser,
+  listPendingWorkspaceInvitationsFor,
+} from '../workspace/invitations.js';
+
+function asyncHandler(
+  fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+}
+
+type InvitationAction = 'accept' | 'decline';
+
+async function respond(
+  kind: InvitationKind,
+  invitationId: string,
+  user: User,
+  action: InvitationAction,
+  res: Response
+): Promise<void> {
+  try {
+    if (action === 'decline') {
+      await (kind === 'team'
+        ? declineTeamInvitation(invitationId, user)
+        : declineWorkspaceInvitation(invitationId, user));
+      res.status(204).send();
+    } else if (kind === 'team') {
+      const membership = await acceptTeamInvitation(invitationId, user);
+      res.json({ kind, teamId: membership.teamId, role: membership.role });
+    } else {
+      const grant = await acceptWorkspaceInvitation(invitationId, user);
+      res.json({ kind, workspaceId: grant.workspaceId, role: grant.role });
+    }
+  } catch (err) {
+    if (err instanceof InvitationError) {
+      res.status(err.status).json({ error: err.message });
+      return;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Invitee side of workspace and team invitations. A signed token (from the invitation link)
+ * may be redeemed by whoever holds it; answering by id requires the signed-in user's email to
+ * match, so team join links (which have no email) are token-only.
+ */
+export function createInvitationRouter(env: ServerEnv): Router {
+  const router = Router();
+  router.use(requireSsoConfigured(env));
+  router.use(requireAuth(env));
+  router.use(requireCsrf(env));
+
+  router.get(
+    '/',
+    asyncHandler(async (req, res) => {
+      const [workspaceInvitations, teamInvitations] = await Promise.all([
+        listPendingWorkspaceInvitationsFor(req.user!),
+        listPendingTeamInvitationsFor(req.user!),
+      ]);
+      res.json([
+        ...workspaceInvitations.map((i) => ({ ...i, kind: 'workspace' as const })),
+        ...teamInvitations.map((i) => ({ ...i, kind: 'team' as const })),
+      ]);
+    })
+  );
+
+  for (const action of ['accept', 'decline'] as const) {
+    router.post(
+      `/${action}`,
+      asyncHandler(async (req, res) => {
+        const token = typeof req.body?.token === 'string' ? req.body.token : '';
+        const claims = token ? verifyInvitationToken(token, env.sessionSecrets) : null;
+        if (!claims) {
+          res.status(400).json({ error: 'Invalid invitation token' });
+          return;
+        }
+        await respond(claims.kind, claims.invitationId, req.user!, action, res);
+      })
+    );
+
+    router.post(
+      `/:invitationId/${action}`,
+      asyncHandler(async (req, res) => {
+        const id = req.params.invitationId;
+        const workspaceInvitation = await getPrisma().workspaceInvitation.findUnique({
+          where: { id },
+        });
+        if (workspaceInvitation && invitationMatchesUser(workspaceInvitation, req.user!)) {
+          await respond('workspace', id, req.user!, action, res);
+          return;
+        }
+        const teamInvitation = await getPrisma().teamInvitation.findUnique({ where: { id } });
+        if (teamInvitation?.email && invitationMatchesUser({ email: teamInvitation.email }, req.user!)) {
+          await respond('team', id, req.user!, action, res);
+          return;
+        }
+        res.status(404).json({ error: 'Invitation not found' });
+      })
+    );
+  }
+
+  return router;
+}
@@ -0,0 +1,398 @@
+// Author: Preston Lee
+
+import crypto from 'node:crypto';
+import type { Team, User } from '@prisma/client';
+
+export const SCIM_USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
+export const SCIM_GROUP_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:Group';
+export const SCIM_LIST_RESPONSE_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+export const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+export const SCIM_DEFAULT_COUNT = 100;
+export const SCIM_MAX_COUNT = 200;
+
+/** A SCIM protocol error (RFC 7644 §3.12), sent as an Error message with `status`. */
+export class ScimError extends Error {
+  readonly status: number;
+  readonly scimType: string | undefined;
+
+  constructor(status: number, message: string, scimType?: string) {
+    super(message);
+    this.name = 'ScimError';
+    this.status = status;
+    this.scimType = scimType;
+    Object.setPrototypeOf(this, ScimError.prototype);
+  }
+}
+
+/** `Authorization: Bearer <token>` against the configured tokens (current first, then previous). */
+export function scimTokenMatches(header: string | undefined, tokens: readonly string[]): boolean {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header ?? '');
+  if (!match) {
+    return false;
+  }
+  const digest = (value: string) => crypto.createHash('sha256').update(value, 'utf8').digest();
+  const actual = digest(match[1]);
+  return tokens.some((token) => crypto.timingSafeEqual(actual, digest(token)));
+}
+
+export function scimErrorBody(status: number, detail: string, scimType?: string) {
+  return {
+    schemas: [SCIM_ERROR_SCHEMA],
+    status: String(status),
+    detail,
+    ...(scimType && { scimType }),
+  };
+}
+
+export interface ScimFilter {
+  /** One of the attribute names the caller allowed, in the caller's spelling. */
+  attribute: string;
+  value: string;
+}
+
+/**
+ * Only `attribute eq "value"` is supported, which is what provisioning clients such as Okta
+ * and Entra ID send to look up a resource before creating it. Null when no filter is given.
+ */
+export function parseScimFilter(raw: unknown, attributes: readonly string[]): ScimFilter | null {
+  if (raw === undefined || raw === '') {
+    return null;
+  }
+  const match =
+    typeof raw === 'string'
+      ? /^\s*([A-Za-z][\w.]*)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i.exec(raw)
+      : null;
+  if (!match) {
+    throw new ScimError(
+      400,
+      'Only filters of the form attribute eq "value" are supported',
+      'invalidFilter'
+    );
+  }
+  const attribute = attributes.find((a) => a.toLowerCase() === match[1].toLowerCase());
+  if (!attribute) {
+    throw new ScimError(400, `Filtering on ${match[1]} is not supported`, 'invalidFilter');
+  }
+  return { attribute, value: match[2].replace(/\\(.)/g, '$1') };
+}
+
+export interface ScimListParams {
+  /** 1-based, as in SCIM. */
+  startIndex: number;
+  count: number;
+}
+
+export function parseScimListParams(query: Record<string, unknown>): ScimListParams {
+  const rawStart = Number(query.startIndex);
+  const rawCount = Number(query.count);
+  return {
+    startIndex: Number.isInteger(rawStart) && rawStart >= 1 ? rawStart : 1,
+    count:
+      Number.isInteger(rawCount) && rawCount >= 0
+        ? Math.min(rawCount, SCIM_MAX_COUNT)
+        : SCIM_DEFAULT_COUNT,
+  };
+}
+
+export function scimListResponse<T>(resources: T[], totalResults: number, startIndex: number) {
+  return {
+    schemas: [SCIM_LIST_RESPONSE_SCHEMA],
+    totalResults,
+    startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources,
+  };
+}
+
+export interface ScimUserInput {
+  userName: string;
+  externalId: string | null;
+  displayName: string | null;
+  email: string | null;
+  active: boolean;
+}
+
+export type ScimUserPatch = Partial<ScimUserInput>;
+
+export type ScimMemberOp = { op: 'add' | 'remove' | 'replace'; ids: string[] };
+
+export interface ScimGroupInput {
+  displayName: string;
+  externalId: string | null;
+  memberIds: string[];
+}
+
+export interface ScimGroupPatch {
+  displayName?: string;
+  externalId?: string | null;
+  /** Applied in order to the current members with `applyScimMemberOps`. */
+  memberOps: ScimMemberOp[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/** Entra ID sends booleans as the strings "True" / "False". */
+function readBoolean(value: unknown, attribute: string): boolean {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string' && /^(true|false)$/i.test(value)) {
+    return value.toLowerCase() === 'true';
+  }
+  throw new ScimError(400, `${attribute} must be a boolean`, 'invalidValue');
+}
+
+function readName(name: unknown): string | null {
+  if (!isRecord(name)) {
+    return null;
+  }
+  const parts = [optionalString(name.givenName), optionalString(name.familyName)].filter(Boolean);
+  return optionalString(name.formatted) ?? (parts.length ? parts.join(' ') : null);
+}
+
+/** The primary email, else the first one. */
+function readEmails(emails: unknown): string | null {
+  if (!Array.isArray(emails)) {
+    return null;
+  }
+  const entries = emails.filter(isRecord);
+  const chosen = entries.find((e) => e.primary === true || e.primary === 'true') ?? entries[0];
+  return chosen ? optionalString(chosen.value) : null;
+}
+
+/** User attributes present in `value` (a full resource or a PATCH value object). */
+function readUserAttributes(value: Record<string, unknown>): ScimUserPatch {
+  const patch: ScimUserPatch = {};
+  if ('userName' in value) {
+    const userName = optionalString(value.userName);
+    if (!userName) {
+      throw new ScimError(400, 'userName must be a non-empty string', 'invalidValue');
+    }
+    patch.userName = userName;
+  }
+  if ('externalId' in value) {
+    patch.externalId = optionalString(value.externalId);
+  }
+  const displayName = optionalString(value.displayName) ?? readName(value.name);
+  if (displayName) {
+    patch.displayName = displayName;
+  }
+  if ('emails' in value) {
+    patch.email = readEmails(value.emails);
+  }
+  if ('active' in value) {
+    patch.active = readBoolean(value.active, 'active');
+  }
+  return patch;
+}
+
+/** Body of `POST /Users` or `PUT /Users/:id`. Without emails, an email-like userName is used. */
+export function readScimUserInput(body: unknown): ScimUserInput {
+  if (!isRecord(body)) {
+    throw new ScimError(400, 'Request body must be a SCIM User', 'invalidSyntax');
+  }
+  const attributes = readUserAttributes(body);
+  if (!attributes.userName) {
+    throw new ScimError(400, 'userName is required', 'invalidValue');
+  }
+  return {
+    userName: attributes.userName,
+    externalId: attributes.externalId ?? null,
+    displayName: attributes.displayName ?? null,
+    email: attributes.email ?? (attributes.userName.includes('@') ? attributes.userName : null),
+    active: attributes.active ?? true,
+  };
+}
+
+function readPatchOperations(body: unknown): { op: string; path: string | null; value: unknown }[] {
+  const operations = isRecord(body) ? body.Operations : undefined;
+  if (!Array.isArray(operations)) {
+    throw new ScimError(400, 'Operations is required', 'invalidSyntax');
+  }
+  return operations.map((operation) => {
+    const op = isRecord(operation) && typeof operation.op === 'string' ? operation.op : '';
+    if (!['add', 'replace', 'remove'].includes(op.toLowerCase())) {
+      throw new ScimError(400, 'Each operation needs op add, replace or remove', 'invalidSyntax');
+    }
+    const { path, value } = operation as Record<string, unknown>;
+    return {
+      op: op.toLowerCase(),
+      path: typeof path === 'string' && path.trim() ? path.trim() : null,
+      value,
+    };
+  });
+}
+
+/**
+ * `PATCH /Users/:id`. Unknown attributes (enterprise extension, phone numbers, …) and removals
+ * are ignored rather than rejected, since clients send whatever their mapping contains.
+ */
+export function readScimUserPatch(body: unknown): ScimUserPatch {
+  const patch: ScimUserPatch = {};
+  for (const { op, path, value } of readPatchOperations(body)) {
+    if (op === 'remove') {
+      continue;
+    }
+    if (!path) {
+      if (!isRecord(value)) {
+        throw new ScimError(400, 'An operation without path needs an object value', 'invalidValue');
+      }
+      Object.assign(patch, readUserAttributes(value));
+      continue;
+    }
+    const lower = path.toLowerCase();
+    if (lower === 'active') {
+      patch.active = readBoolean(value, 'active');
+    } else if (lower === 'username') {
+      Object.assign(patch, readUserAttributes({ userName: value }));
+    } else if (lower === 'externalid') {
+      patch.externalId = optionalString(value);
+    } else if (lower === 'displayname' || lower === 'name.formatted') {
+      patch.displayName = optionalString(value) ?? patch.displayName;
+    } else if (lower === 'emails') {
+      patch.email = readEmails(value);
+    } else if (/^emails\[.*\]\.value$/.test(lower)) {
+      patch.email = optionalString(value);
+    }
+  }
+  return patch;
+}
+
+function readMemberIds(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new ScimError(400, 'members must be a list', 'invalidValue');
+  }
+  return value.map((member) => {
+    const id = isRecord(member) ? optionalString(member.value) : null;
+    if (!id) {
+      throw new ScimError(400, 'Each member needs a value', 'invalidValue');
+    }
+    return id;
+  });
+}
+
+/** Body of `POST /Groups` or `PUT /Groups/:id`. */
+export function readScimGroupInput(body: unknown): ScimGroupInput {
+  const displayName = isRecord(body) ? optionalString(body.displayName) : null;
+  if (!isRecord(body) || !displayName) {
+    throw new ScimError(400, 'displayName is required', 'invalidValue');
+  }
+  return {
+    displayName,
+    externalId: optionalString(body.externalId),
+    memberIds: readMemberIds(body.members),
+  };
+}
+
+/** `PATCH /Groups/:id`, including `remove` with a `members[value eq "…"]` path. */
+export function readScimGroupPatch(body: unknown): ScimGroupPatch {
+  const patch: ScimGroupPatch = { memberOps: [] };
+  for (const { op, path, value } of readPatchOperations(body)) {
+    const lower = path?.toLowerCase() ?? null;
+    if (lower === null) {
+      if (!isRecord(value)) {
+        throw new ScimError(400, 'An operation without path needs an object value', 'invalidValue');
+      }
+      if ('displayName' in value) {
+        patch.displayName = readScimGroupInput({ displayName: value.displayName }).displayName;
+      }
+      if ('externalId' in value) {
+        patch.externalId = optionalString(value.externalId);
+      }
+      if ('members' in value && op !== 'remove') {
+        patch.memberOps.push({
+          op: op === 'add' ? 'add' : 'replace',
+          ids: readMemberIds(value.members),
+        });
+      }
+    } else if (lower === 'displayname' && op !== 'remove') {
+      patch.displayName = readScimGroupInput({ displayName: value }).displayName;
+    } else if (lower === 'externalid') {
+      patch.externalId = op === 'remove' ? null : optionalString(value);
+    } else if (lower === 'members') {
+      if (op === 'remove') {
+        const ids = readMemberIds(value);
+        patch.memberOps.push(ids.length ? { op: 'remove', ids } : { op: 'replace', ids: [] });
+      } else {
+        patch.memberOps.push({ op: op === 'add' ? 'add' : 'replace', ids: readMemberIds(value) });
+      }
+    } else {
+      const filtered = /^members\[\s*value\s+eq\s+"([^"]+)"\s*\]$/i.exec(path!);
+      if (filtered && op === 'remove') {
+        patch.memberOps.push({ op: 'remove', ids: [filtered[1]] });
+      }
+    }
+  }
+  return patch;
+}
+
+export function applyScimMemberOps(
+  current: Iterable<string>,
+  ops: readonly ScimMemberOp[]
+): Set<string> {
+  const members = new Set(current);
+  for (const { op, ids } of ops) {
+    if (op === 'replace') {
+      members.clear();
+    }
+    for (const id of ids) {
+      if (op === 'remove') {
+        members.delete(id);
+      } else {
+        members.add(id);
+      }
+    }
+  }
+  return members;
+}
+
+export function toScimUser(user: User, location: string) {
+  return {
+    schemas: [SCIM_USER_SCHEMA],
+    id: user.id,
+    ...(user.scimExternalId && { externalId: user.scimExternalId }),
+    userName: user.scimUserName ?? user.email ?? user.ssoSubject,
+    ...(user.displayName && {
+      displayName: user.displayName,
+      name: { formatted: user.displayName },
+    }),
+    emails: user.email ? [{ value: user.email, type: 'work', primary: true }] : [],
+    active: !user.disabledAt,
+    meta: {
+      resourceType: 'User',
+      created: user.createdAt.toISOString(),
+      lastModified: user.updatedAt.toISOString(),
+      location,
+    },
+  };
+}
+
+export function toScimGroup(
+  team: Team,
+  members: Pick<User, 'id' | 'displayName' | 'email'>[],
+  location: string
+) {
+  return {
+    schemas: [SCIM_GROUP_SCHEMA],
+    id: team.id,
+    ...(team.scimExternalId && { externalId: team.scimExternalId }),
+    displayName: team.name,
+    members: members.map((m) => ({ value: m.id, display: m.displayName ?? m.email ?? m.id })),
+    meta: {
+      resourceType: 'Group',
+      created: team.createdAt.toISOString(),
+      lastModified: team.updatedAt.toISOString(),
+      location,
+    },
+  };
+}
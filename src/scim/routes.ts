@@ -0,0 +1,467 @@
+// Author: Preston Lee
+
+import express, { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import {
+  Prisma,
+  TeamMemberRole,
+  TeamMembershipSource,
+  type Team,
+  type User,
+} from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import type { ServerEnv } from '../config/env.js';
+import { findSsoProvider } from '../auth/oidc.js';
+import { deprovisionUser, disableUser, enableUser } from '../user/deprovision.js';
+import { uniqueSlug } from '../workspace/access.js';
+import {
+  applyScimMemberOps,
+  parseScimFilter,
+  parseScimListParams,
+  readScimGroupInput,
+  readScimGroupPatch,
+  readScimUserInput,
+  readScimUserPatch,
+  SCIM_CONTENT_TYPE,
+  SCIM_GROUP_SCHEMA,
+  SCIM_USER_SCHEMA,
+  ScimError,
+  scimErrorBody,
+  scimListResponse,
+  scimTokenMatches,
+  toScimGroup,
+  toScimUser,
+} from './protocol.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const SERVICE_PROVIDER_CONFIG = {
+  schemas: ['urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'],
+  patch: { supported: true },
+  bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+  filter: { supported: true, maxResults: 200 },
+  changePassword: { supported: false },
+  sort: { supported: false },
+  etag: { supported: false },
+  authenticationSchemes: [
+    {
+      type: 'oauthbearertoken',
+      name: 'OAuth Bearer Token',
+      description: 'The token configured in CQL_STUDIO_SERVER_SCIM_TOKEN',
+      primary: true,
+    },
+  ],
+};
+
+const RESOURCE_TYPES = [
+  { id: 'User', name: 'User', endpoint: '/Users', schema: SCIM_USER_SCHEMA },
+  { id: 'Group', name: 'Group', endpoint: '/Groups', schema: SCIM_GROUP_SCHEMA },
+].map((type) => ({
+  schemas: ['urn:ietf:params:scim:schemas:core:2.0:ResourceType'],
+  ...type,
+}));
+
+const MEMBER_USER_SELECT = { id: true, displayName: true, email: true } as const;
+
+function asyncHandler(
+  fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+}
+
+function sendScimError(res: Response, status: number, detail: string, scimType?: string): void {
+  res.status(status).json(scimErrorBody(status, detail, scimType));
+}
+
+function resourceLocation(req: Request, path: string): string {
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}${path}`;
+}
+
+/**
+ * SCIM 2.0 provisioning (RFC 7643/7644) under /scim/v2 for the IdP, authenticated with the
+ * `CQL_STUDIO_SERVER_SCIM_TOKEN` bearer token. Users are provisioned for one SSO provider
+ * (`CQL_STUDIO_SERVER_SCIM_PROVIDER`) with `externalId` (else `userName`) as their OIDC
+ * subject, so they match on first sign-in. Groups are teams: their members are kept as IDP
+ * memberships, and manually added members are never removed by a group sync.
+ */
+export function createScimRouter(env: ServerEnv): Router {
+  const router = Router();
+  const issuer = findSsoProvider(env, env.scimProviderId ?? undefined)?.issuerUrl ?? '';
+  const userScope: Prisma.UserWhereInput = {
+    ssoIssuer: issuer,
+    serviceAccountId: null,
+    deprovisionedAt: null,
+  };
+  const teamScope: Prisma.TeamWhereInput = { scimManaged: true, deletedAt: null };
+
+  router.use(express.json({ type: SCIM_CONTENT_TYPE, limit: '1mb' }));
+  router.use((req, res, next) => {
+    res.type(SCIM_CONTENT_TYPE);
+    if (!env.scimTokens.length) {
+      sendScimError(res, 404, 'SCIM provisioning is not configured on this deployment');
+      return;
+    }
+    if (!scimTokenMatches(req.get('authorization'), env.scimTokens)) {
+      res.set('WWW-Authenticate', 'Bearer');
+      sendScimError(res, 401, 'Invalid or missing bearer token');
+      return;
+    }
+    next();
+  });
+
+  async function findScimUser(id: string): Promise<User> {
+    const user = UUID_PATTERN.test(id)
+      ? await getPrisma().user.findFirst({ where: { id, ...userScope } })
+      : null;
+    if (!user) {
+      throw new ScimError(404, `User ${id} not found`);
+    }
+    return user;
+  }
+
+  async function findScimTeam(id: string): Promise<Team> {
+    const team = UUID_PATTERN.test(id)
+      ? await getPrisma().team.findFirst({ where: { id, ...teamScope } })
+      : null;
+    if (!team) {
+      throw new ScimError(404, `Group ${id} not found`);
+    }
+    return team;
+  }
+
+  /** Applies SCIM `active`; deactivation ends sessions and flags ownerless workspaces. */
+  async function applyActive(user: User, active: boolean | undefined): Promise<User> {
+    if (active === undefined || active === !user.disabledAt) {
+      return user;
+    }
+    if (active) {
+      await enableUser(user.id);
+    } else {
+      const { sessions, ownerlessWorkspaceIds } = await disableUser(user.id);
+      console.log(
+        `[scim] Deactivated user ${user.id}: ended ${sessions} session(s), ${ownerlessWorkspaceIds.length} workspace(s) left without an owner`
+      );
+    }
+    return getPrisma().user.findUniqueOrThrow({ where: { id: user.id } });
+  }
+
+  async function loadMembers(teamIds: string[]) {
+    const memberships = await getPrisma().teamMembership.findMany({
+      where: { teamId: { in: teamIds }, user: { serviceAccountId: null } },
+      include: { user: { select: MEMBER_USER_SELECT } },
+      orderBy: { createdAt: 'asc' },
+    });
+    const byTeam = new Map<string, (typeof memberships)[number]['user'][]>();
+    for (const m of memberships) {
+      byTeam.set(m.teamId, [...(byTeam.get(m.teamId) ?? []), m.user]);
+    }
+    return byTeam;
+  }
+
+  async function serializeGroup(req: Request, team: Team) {
+    const members = (await loadMembers([team.id])).get(team.id) ?? [];
+    return toScimGroup(team, members, resourceLocation(req, `/Groups/${team.id}`));
+  }
+
+  /**
+   * Makes the team's members match `desired`: missing users become SCIM members, SCIM members no
+   * longer listed are removed, other memberships stay. Unknown member ids are rejected first.
+   */
+  async function syncTeamMembers(teamId: string, desired: Set<string>): Promise<void> {
+    const prisma = getPrisma();
+    const ids = [...desired];
+    const existing = await prisma.teamMembership.findMany({ where: { teamId } });
+    const current = new Set(existing.map((m) => m.userId));
+    const added = ids.filter((id) => !current.has(id));
+    const known = added.every((id) => UUID_PATTERN.test(id))
+      ? await prisma.user.count({ where: { id: { in: added }, ...userScope } })
+      : -1;
+    if (known !== added.length) {
+      throw new ScimError(400, 'Group members must be provisioned users', 'invalidValue');
+    }
+    await prisma.$transaction([
+      prisma.teamMembership.createMany({
+        data: added.map((userId) => ({
+          teamId,
+          userId,
+          role: TeamMemberRole.MEMBER,
+          source: TeamMembershipSource.SCIM,
+        })),
+      }),
+      prisma.teamMembership.deleteMany({
+        where: { teamId, source: TeamMembershipSource.SCIM, userId: { notIn: ids } },
+      }),
+      // Sign-in sync leaves SCIM-managed teams alone, so listed members it added become SCIM's.
+      prisma.teamMembership.updateMany({
+        where: { teamId, source: TeamMembershipSource.IDP, userId: { in: ids } },
+        data: { source: TeamMembershipSource.SCIM },
+      }),
+    ]);
+  }
+
+  router.get('/ServiceProviderConfig', (_req, res) => {
+    res.json(SERVICE_PROVIDER_CONFIG);
+  });
+
+  router.get('/ResourceTypes', (_req, res) => {
+    res.json(scimListResponse(RESOURCE_TYPES, RESOURCE_TYPES.length, 1));
+  });
+
+  /** `filter=userName eq "…"` also matches not-yet-provisioned users by email. */
+  router.get(
+    '/Users',
+    asyncHandler(async (req, res) => {
+      const filter = parseScimFilter(req.query.filter, ['userName', 'externalId']);
+      const { startIndex, count } = parseScimListParams(req.query);
+      const where: Prisma.UserWhereInput = { ...userScope };
+      if (filter?.attribute === 'userName') {
+        where.OR = [
+          { scimUserName: { equals: filter.value, mode: 'insensitive' } },
+          { scimUserName: null, email: { equals: filter.value, mode: 'insensitive' } },
+        ];
+      } else if (filter) {
+        where.scimExternalId = filter.value;
+      }
+      const [users, total] = await Promise.all([
+        getPrisma().user.findMany({
+          where,
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          skip: startIndex - 1,
+          take: count,
+        }),
+        getPrisma().user.count({ where }),
+      ]);
+      const resources = users.map((u) => toScimUser(u, resourceLocation(req, `/Users/${u.id}`)));
+      res.json(scimListResponse(resources, total, startIndex));
+    })
+  );
+
+  router.get(
+    '/Users/:id',
+    asyncHandler(async (req, res) => {
+      const user = await findScimUser(req.params.id);
+      res.json(toScimUser(user, resourceLocation(req, `/Users/${user.id}`)));
+    })
+  );
+
+  /**
+   * Creates the user, or links the existing user with the same subject when they signed in
+   * before being provisioned or were deprovisioned earlier.
+   */
+  router.post(
+    '/Users',
+    asyncHandler(async (req, res) => {
+      const input = readScimUserInput(req.body);
+      const subject = input.externalId ?? input.userName;
+      const prisma = getPrisma();
+      const existing = await prisma.user.findUnique({
+        where: { ssoIssuer_ssoSubject: { ssoIssuer: issuer, ssoSubject: subject } },
+      });
+      if (existing && existing.scimUserName !== null && !existing.deprovisionedAt) {
+        throw new ScimError(409, `User ${input.userName} already exists`, 'uniqueness');
+      }
+      const data = {
+        scimUserName: input.userName,
+        scimExternalId: input.externalId,
+        email: input.email,
+        emailVerified: input.email !== null,
+        deprovisionedAt: null,
+        ...(input.displayName && { displayName: input.displayName }),
+      };
+      const saved = existing
+        ? await prisma.user.update({ where: { id: existing.id }, data })
+        : await prisma.user.create({ data: { ssoIssuer: issuer, ssoSubject: subject, ...data } });
+      const user = await applyActive(saved, input.active);
+      res.status(201).json(toScimUser(user, resourceLocation(req, `/Users/${user.id}`)));
+    })
+  );
+
+  router.put(
+    '/Users/:id',
+    asyncHandler(async (req, res) => {
+      const existing = await findScimUser(req.params.id);
+      const input = readScimUserInput(req.body);
+      const saved = await getPrisma().user.update({
+        where: { id: existing.id },
+        data: {
+          scimUserName: input.userName,
+          scimExternalId: input.externalId,
+          email: input.email,
+          emailVerified: input.email !== null,
+          ...(input.displayName && { displayName: input.displayName }),
+        },
+      });
+      const user = await applyActive(saved, input.active);
+      res.json(toScimUser(user, resourceLocation(req, `/Users/${user.id}`)));
+    })
+  );
+
+  router.patch(
+    '/Users/:id',
+    asyncHandler(async (req, res) => {
+      const existing = await findScimUser(req.params.id);
+      const patch = readScimUserPatch(req.body);
+      const saved = await getPrisma().user.update({
+        where: { id: existing.id },
+        data: {
+          scimUserName: patch.userName,
+          scimExternalId: patch.externalId,
+          email: patch.email,
+          emailVerified: patch.email === undefined ? undefined : patch.email !== null,
+          displayName: patch.displayName ?? undefined,
+        },
+      });
+      const user = await applyActive(saved, patch.active);
+      res.json(toScimUser(user, resourceLocation(req, `/Users/${user.id}`)));
+    })
+  );
+
+  /** Deprovisions: see `deprovisionUser`. The user then no longer appears over SCIM. */
+  router.delete(
+    '/Users/:id',
+    asyncHandler(async (req, res) => {
+      const user = await findScimUser(req.params.id);
+      const { sessions, ownerlessWorkspaceIds } = await deprovisionUser(user.id);
+      console.log(
+        `[scim] Deprovisioned user ${user.id}: ended ${sessions} session(s), ${ownerlessWorkspaceIds.length} workspace(s) left without an owner`
+      );
+      res.status(204).send();
+    })
+  );
+
+  /** `excludedAttributes=members` skips loading members, as clients do when only matching. */
+  router.get(
+    '/Groups',
+    asyncHandler(async (req, res) => {
+      const filter = parseScimFilter(req.query.filter, ['displayName', 'externalId']);
+      const { startIndex, count } = parseScimListParams(req.query);
+      const where: Prisma.TeamWhereInput = { ...teamScope };
+      if (filter?.attribute === 'displayName') {
+        where.name = { equals: filter.value, mode: 'insensitive' };
+      } else if (filter) {
+        where.scimExternalId = filter.value;
+      }
+      const [teams, total] = await Promise.all([
+        getPrisma().team.findMany({
+          where,
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          skip: startIndex - 1,
+          take: count,
+        }),
+        getPrisma().team.count({ where }),
+      ]);
+      const excludeMembers =
+        typeof req.query.excludedAttributes === 'string' &&
+        /(^|,)\s*members\s*(,|$)/i.test(req.query.excludedAttributes);
+      const members = excludeMembers ? new Map() : await loadMembers(teams.map((t) => t.id));
+      const resources = teams.map((team) => {
+        const group = toScimGroup(
+          team,
+          members.get(team.id) ?? [],
+          resourceLocation(req, `/Groups/${team.id}`)
+        );
+        if (excludeMembers) {
+          const { members: _omitted, ...rest } = group;
+          return rest;
+        }
+        return group;
+      });
+      res.json(scimListResponse(resources, total, startIndex));
+    })
+  );
+
+  router.get(
+    '/Groups/:id',
+    asyncHandler(async (req, res) => {
+      const team = await findScimTeam(req.params.id);
+      res.json(await serializeGroup(req, team));
+    })
+  );
+
+  router.post(
+    '/Groups',
+    asyncHandler(async (req, res) => {
+      const input = readScimGroupInput(req.body);
+      const prisma = getPrisma();
+      const duplicate = await prisma.team.findFirst({
+        where: { ...teamScope, name: { equals: input.displayName, mode: 'insensitive' } },
+      });
+      if (duplicate) {
+        throw new ScimError(409, `Group ${input.displayName} already exists`, 'uniqueness');
+      }
+      const team = await prisma.team.create({
+        data: {
+          name: input.displayName,
+          slug: await uniqueSlug('team', input.displayName),
+          scimManaged: true,
+          scimExternalId: input.externalId,
+        },
+      });
+      await syncTeamMembers(team.id, new Set(input.memberIds));
+      res.status(201).json(await serializeGroup(req, team));
+    })
+  );
+
+  router.put(
+    '/Groups/:id',
+    asyncHandler(async (req, res) => {
+      const existing = await findScimTeam(req.params.id);
+      const input = readScimGroupInput(req.body);
+      await syncTeamMembers(existing.id, new Set(input.memberIds));
+      const team = await getPrisma().team.update({
+        where: { id: existing.id },
+        data: { name: input.displayName, scimExternalId: input.externalId },
+      });
+      res.json(await serializeGroup(req, team));
+    })
+  );
+
+  router.patch(
+    '/Groups/:id',
+    asyncHandler(async (req, res) => {
+      const existing = await findScimTeam(req.params.id);
+      const patch = readScimGroupPatch(req.body);
+      if (patch.memberOps.length) {
+        const current = await getPrisma().teamMembership.findMany({
+          where: { teamId: existing.id, user: { serviceAccountId: null } },
+          select: { userId: true },
+        });
+        const desired = applyScimMemberOps(
+          current.map((m) => m.userId),
+          patch.memberOps
+        );
+        await syncTeamMembers(existing.id, desired);
+      }
+      const team = await getPrisma().team.update({
+        where: { id: existing.id },
+        data: { name: patch.displayName, scimExternalId: patch.externalId },
+      });
+      res.json(await serializeGroup(req, team));
+    })
+  );
+
+  /** Moves the team to the trash; a team admin can still restore it within the retention period. */
+  router.delete(
+    '/Groups/:id',
+    asyncHandler(async (req, res) => {
+      const team = await findScimTeam(req.params.id);
+      await getPrisma().team.update({
+        where: { id: team.id },
+        data: { deletedAt: new Date(), deletedByUserId: null },
+      });
+      res.status(204).send();
+    })
+  );
+
+  router.use((err: unknown, _req: Request, res: Response, next: NextFunction) => {
+    if (err instanceof ScimError) {
+      sendScimError(res, err.status, err.message, err.scimType);
+      return;
+    }
+    next(err);
+  });
+
+  return router;
+}
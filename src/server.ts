@@ -8,8 +8,13 @@ import { applyPendingMigrations } from './db/migrate.js';
 import { mcpRouter } from './mcp/index.js';
 import { ollamaProxyRouter } from './ollama/proxy.js';
 import { vsacFhirProxyRouter, vsacSiteProxyRouter } from './vsac/proxy.js';
+import { createAdminRouter } from './admin/routes.js';
 import { createAuthRouter } from './auth/routes.js';
+import { createInvitationRouter } from './invitation/routes.js';
+import { createScimRouter } from './scim/routes.js';
 import { createTeamRouter } from './team/routes.js';
+import { createMeRouter, createUserRouter } from './user/routes.js';
+import { startMaintenanceScheduler } from './services/maintenance.js';
 import { createActivityRouter, createWorkspaceRouter } from './workspace/routes.js';
 
 async function main(): Promise<void> {
@@ -19,11 +24,15 @@ async function main(): Promise<void> {
   await applyPendingMigrations(env);
 
   const app = express();
+  // Behind a reverse proxy, lets req.ip (recorded on sessions) and req.protocol come from
+  // X-Forwarded-* headers of the trusted hops.
+  app.set('trust proxy', env.trustProxy);
 
   app.use(
     cors({
       origin: env.ssoConfigured ? env.corsOrigin : '*',
       credentials: env.ssoConfigured,
+      exposedHeaders: ['ETag'],
       optionsSuccessStatus: 200,
     })
   );
@@ -54,10 +63,19 @@ async function main(): Promise<void> {
     app.use('/api/teams', createTeamRouter(env));
     app.use('/api/workspaces', createWorkspaceRouter(env));
     app.use('/api/activity', createActivityRouter(env));
+    app.use('/api/invitations', createInvitationRouter(env));
+    app.use('/api/users', createUserRouter(env));
+    app.use('/api/me', createMeRouter(env));
+    app.use('/api/admin', createAdminRouter(env));
+    app.use('/scim/v2', createScimRouter(env));
+    startMaintenanceScheduler(env);
   } else {
     app.get('/api/auth/session', (_req, res) => {
       res.json({ enabled: false, user: null });
     });
+    app.get('/api/auth/providers', (_req, res) => {
+      res.json([]);
+    });
   }
 
   app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
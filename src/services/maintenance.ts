@@ -0,0 +1,121 @@
+// Author: Preston Lee
+
+import { InvitationStatus } from '@prisma/client';
+import { deleteInBatches } from '../db/batch.js';
+import { getPrisma } from '../db/prisma.js';
+import type { ServerEnv } from '../config/env.js';
+import { purgeExpiredTrash, trashPurgeCutoff } from './trash-purge.js';
+
+/** Rows removed by one maintenance run, keyed by what was removed. */
+export interface MaintenanceSummary {
+  sessions: number;
+  workspaceInvitations: number;
+  teamInvitations: number;
+  personalAccessTokens: number;
+  workspaces: number;
+  teams: number;
+}
+
+/** One-line log summary; null when nothing was removed so idle runs stay quiet. */
+export function formatMaintenanceSummary(
+  summary: MaintenanceSummary,
+  durationMs: number
+): string | null {
+  const parts = Object.entries(summary)
+    .filter(([, count]) => count > 0)
+    .map(([key, count]) => `${count} ${key}`);
+  return parts.length ? `Removed ${parts.join(', ')} in ${durationMs} ms` : null;
+}
+
+/**
+ * Deletes time-bounded rows that can no longer be used:
+ * - sessions past `expiresAt` (otherwise only removed when their cookie comes back);
+ * - pending invitations and personal access tokens that expired longer ago than the trash
+ *   retention period (recently expired ones stay visible to their owners);
+ * - workspaces and teams trashed longer than the retention period.
+ * OIDC login state lives in a short-lived signed cookie, so there is no server-side state to purge.
+ */
+export async function runMaintenance(
+  env: Pick<ServerEnv, 'trashRetentionDays' | 'maintenanceBatchSize'>,
+  now: Date = new Date()
+): Promise<MaintenanceSummary> {
+  const prisma = getPrisma();
+  const batchSize = env.maintenanceBatchSize;
+  const expiredCutoff = trashPurgeCutoff(env.trashRetentionDays, now);
+
+  const sessions = await deleteInBatches(
+    batchSize,
+    (take) =>
+      prisma.session.findMany({ where: { expiresAt: { lte: now } }, select: { id: true }, take }),
+    async (ids) => (await prisma.session.deleteMany({ where: { id: { in: ids } } })).count
+  );
+
+  const workspaceInvitations = await deleteInBatches(
+    batchSize,
+    (take) =>
+      prisma.workspaceInvitation.findMany({
+        where: { status: InvitationStatus.PENDING, expiresAt: { lt: expiredCutoff } },
+        select: { id: true },
+        take,
+      }),
+    async (ids) => (await prisma.workspaceInvitation.deleteMany({ where: { id: { in: ids } } })).count
+  );
+
+  const teamInvitations = await deleteInBatches(
+    batchSize,
+    (take) =>
+      prisma.teamInvitation.findMany({
+        where: { status: InvitationStatus.PENDING, expiresAt: { lt: expiredCutoff } },
+        select: { id: true },
+        take,
+      }),
+    async (ids) => (await prisma.teamInvitation.deleteMany({ where: { id: { in: ids } } })).count
+  );
+
+  const personalAccessTokens = await deleteInBatches(
+    batchSize,
+    (take) =>
+      prisma.personalAccessToken.findMany({
+        where: { expiresAt: { lt: expiredCutoff } },
+        select: { id: true },
+        take,
+      }),
+    async (ids) => (await prisma.personalAccessToken.deleteMany({ where: { id: { in: ids } } })).count
+  );
+
+  const trash = await purgeExpiredTrash(env.trashRetentionDays, batchSize, now);
+
+  return { sessions, workspaceInvitations, teamInvitations, personalAccessTokens, ...trash };
+}
+
+/**
+ * Runs maintenance at startup and then every `maintenanceIntervalMs`, skipping a tick while
+ * the previous run is still going. Returns a function that stops the timer.
+ */
+export function startMaintenanceScheduler(env: ServerEnv): () => void {
+  let running = false;
+  const run = () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    const started = Date.now();
+    runMaintenance(env)
+      .then((summary) => {
+        const line = formatMaintenanceSummary(summary, Date.now() - started);
+        if (line) {
+          console.log(`[maintenance] ${line}`);
+        }
+      })
+      .catch((err) => {
+        console.error('[maintenance] Run failed:', err instanceof Error ? err.message : err);
+      })
+      .finally(() => {
+        running = false;
+      });
+  };
+  run();
+  const timer = setInterval(run, env.maintenanceIntervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,98 @@
+// Author: Preston Lee
+
+import { WorkspacePrincipalType } from '@prisma/client';
+import { deleteInBatches } from '../db/batch.js';
+import { getPrisma } from '../db/prisma.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Trashed rows whose `deletedAt` is before this instant are due for permanent deletion. */
+export function trashPurgeCutoff(retentionDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
+
+/** When a row trashed at `deletedAt` will be purged; returned to clients in trash listings. */
+export function trashPurgeAt(deletedAt: Date, retentionDays: number): Date {
+  return new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+}
+
+export interface TrashPurgeResult {
+  workspaces: number;
+  teams: number;
+}
+
+/**
+ * Permanently deletes workspaces and teams trashed longer than the retention period, at most
+ * `batchSize` rows per statement. Workspace children (grants, activity, libraries, …) cascade;
+ * grants held by purged teams and their service accounts on other workspaces are removed
+ * explicitly because principals are not foreign keys. Backing users of purged service accounts
+ * stay for activity history, marked `purgedAt`.
+ */
+export async function purgeExpiredTrash(
+  retentionDays: number,
+  batchSize: number,
+  now: Date = new Date()
+): Promise<TrashPurgeResult> {
+  const prisma = getPrisma();
+  const cutoff = trashPurgeCutoff(retentionDays, now);
+
+  // Every delete repeats the cutoff so a row restored between the select and the delete survives.
+  const workspaces = await deleteInBatches(
+    batchSize,
+    (take) =>
+      prisma.workspace.findMany({
+        where: { deletedAt: { lt: cutoff } },
+        select: { id: true },
+        take,
+      }),
+    async (ids) =>
+      (
+        await prisma.workspace.deleteMany({
+          where: { id: { in: ids }, deletedAt: { lt: cutoff } },
+        })
+      ).count
+  );
+
+  const teams = await deleteInBatches(
+    batchSize,
+    (take) =>
+      prisma.team.findMany({ where: { deletedAt: { lt: cutoff } }, select: { id: true }, take }),
+    (ids) =>
+      prisma.$transaction(async (tx) => {
+        const serviceAccounts = await tx.serviceAccount.findMany({
+          where: { teamId: { in: ids } },
+          select: { id: true, teamId: true, user: { select: { id: true } } },
+        });
+        const deleted = await tx.team.deleteMany({
+          where: { id: { in: ids }, deletedAt: { lt: cutoff } },
+        });
+        // Teams restored meanwhile are still there (the delete holds the purged rows' locks);
+        // grants are removed only for the teams actually purged.
+        const kept = new Set(
+          (await tx.team.findMany({ where: { id: { in: ids } }, select: { id: true } })).map(
+            (t) => t.id
+          )
+        );
+        const purgedIds = ids.filter((id) => !kept.has(id));
+        const purgedAccounts = serviceAccounts.filter((a) => !kept.has(a.teamId));
+        await tx.workspaceAccessGrant.deleteMany({
+          where: { principalType: WorkspacePrincipalType.TEAM, principalId: { in: purgedIds } },
+        });
+        await tx.workspaceAccessGrant.deleteMany({
+          where: {
+            principalType: WorkspacePrincipalType.SERVICE_ACCOUNT,
+            principalId: { in: purgedAccounts.map((a) => a.id) },
+          },
+        });
+        // The cascade leaves backing users with a null serviceAccountId; mark them so they are
+        // never taken for people.
+        await tx.user.updateMany({
+          where: { id: { in: purgedAccounts.flatMap((a) => (a.user ? [a.user.id] : [])) } },
+          data: { purgedAt: now },
+        });
+        return deleted.count;
+      })
+  );
+
+  return { workspaces, teams };
+}
@@ -0,0 +1,52 @@
+// Author: Preston Lee
+
+import { TeamMemberRole } from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+
+const TEAM_ROLE_RANK: Record<TeamMemberRole, number> = {
+  MEMBER: 1,
+  ADMIN: 2,
+};
+
+export function maxTeamRole(a: TeamMemberRole | null, b: TeamMemberRole): TeamMemberRole {
+  if (!a) {
+    return b;
+  }
+  return TEAM_ROLE_RANK[a] >= TEAM_ROLE_RANK[b] ? a : b;
+}
+
+/**
+ * Trashed teams only pass when `includeDeleted` is set (trash restore). Service account users
+ * never administer a team, even through a membership that predates that rule.
+ */
+export async function requireTeamAdmin(
+  teamId: string,
+  userId: string,
+  includeDeleted = false
+): Promise<boolean> {
+  const membership = await getPrisma().teamMembership.findUnique({
+    where: { teamId_userId: { teamId, userId } },
+    include: {
+      team: { select: { deletedAt: true } },
+      user: { select: { serviceAccountId: true } },
+    },
+  });
+  if (membership?.user.serviceAccountId) {
+    return false;
+  }
+  if (membership?.team.deletedAt && !includeDeleted) {
+    return false;
+  }
+  return membership?.role === TeamMemberRole.ADMIN;
+}
+
+export function parseTeamMemberRole(raw: unknown): TeamMemberRole | null {
+  if (typeof raw !== 'string') {
+    return null;
+  }
+  const upper = raw.toUpperCase();
+  if (upper === 'ADMIN' || upper === 'MEMBER') {
+    return upper as TeamMemberRole;
+  }
+  return null;
+}
@@ -0,0 +1,133 @@
+// Author: Preston Lee
+
+import { Prisma, TeamMemberRole, TeamMembershipSource, type User } from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import type { GroupTeamMapping, ServerEnv, SsoProvider } from '../config/env.js';
+import { maxTeamRole } from './access.js';
+
+export interface IdpTeamSyncResult {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+/** Group names from the groups claim; null when the claim is absent or not a string list. */
+export function readGroupsClaim(value: unknown): string[] | null {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (!Array.isArray(value) || !value.every((g) => typeof g === 'string')) {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Groups asserted by an ID token from `provider`, or null when the claim is absent or the
+ * provider is not configured with `trustGroups`: a second IdP (e.g. for external collaborators)
+ * must not be able to grant itself teams by naming a mapped group.
+ */
+export function readTrustedGroups(
+  claims: Record<string, unknown>,
+  provider: Pick<SsoProvider, 'trustGroups'>,
+  env: Pick<ServerEnv, 'ssoGroupsClaim'>
+): string[] | null {
+  return provider.trustGroups ? readGroupsClaim(claims[env.ssoGroupsClaim]) : null;
+}
+
+/** Team slug → role asserted by `groups`; groups mapping to the same team take the highest role. */
+export function resolveIdpTeamRoles(
+  groups: readonly string[],
+  mappings: readonly GroupTeamMapping[]
+): Map<string, TeamMemberRole> {
+  const asserted = new Set(groups);
+  const roles = new Map<string, TeamMemberRole>();
+  for (const mapping of mappings) {
+    if (asserted.has(mapping.group)) {
+      const role = mapping.role === 'ADMIN' ? TeamMemberRole.ADMIN : TeamMemberRole.MEMBER;
+      roles.set(mapping.teamSlug, maxTeamRole(roles.get(mapping.teamSlug) ?? null, role));
+    }
+  }
+  return roles;
+}
+
+/**
+ * IDP memberships a sign-in drops: those on mapped teams that the groups no longer assert.
+ * Teams outside the mappings and SCIM-sourced memberships are never touched.
+ */
+export function staleIdpMembershipsWhere(
+  userId: string,
+  mappings: readonly GroupTeamMapping[],
+  keptTeamIds: readonly string[]
+): Prisma.TeamMembershipWhereInput {
+  return {
+    userId,
+    source: TeamMembershipSource.IDP,
+    teamId: { notIn: [...keptTeamIds] },
+    team: { slug: { in: [...new Set(mappings.map((m) => m.teamSlug))] } },
+  };
+}
+
+/**
+ * Brings the user's IDP-sourced team memberships in line with the groups claim (OIDC callback).
+ * Mapped teams that do not exist yet are created; memberships of trashed teams are left alone,
+ * and teams provisioned over SCIM are skipped (SCIM owns their membership).
+ * IDP memberships take the asserted role and are removed once no mapped group asserts them.
+ * Manually added memberships are never removed or downgraded, only raised to an asserted ADMIN.
+ * Returns null without touching anything when the token carries no groups claim, so a
+ * misconfigured scope cannot strip every membership, or when `provider` is not trusted for groups.
+ */
+export async function syncIdpTeamMemberships(
+  user: User,
+  claims: Record<string, unknown>,
+  provider: Pick<SsoProvider, 'trustGroups'>,
+  env: Pick<ServerEnv, 'ssoGroupsClaim' | 'ssoGroupTeamMappings'>
+): Promise<IdpTeamSyncResult | null> {
+  if (!env.ssoGroupTeamMappings.length) {
+    return null;
+  }
+  const groups = readTrustedGroups(claims, provider, env);
+  if (!groups) {
+    return null;
+  }
+  const roles = resolveIdpTeamRoles(groups, env.ssoGroupTeamMappings);
+  const prisma = getPrisma();
+  const result: IdpTeamSyncResult = { added: 0, updated: 0, removed: 0 };
+
+  const keptTeamIds: string[] = [];
+  for (const [slug, role] of roles) {
+    const team = await prisma.team.upsert({
+      where: { slug },
+      create: { slug, name: slug, createdByUserId: user.id },
+      update: {},
+    });
+    if (team.scimManaged) {
+      continue;
+    }
+    keptTeamIds.push(team.id);
+    if (team.deletedAt) {
+      continue;
+    }
+    const key = { teamId: team.id, userId: user.id };
+    const existing = await prisma.teamMembership.findUnique({ where: { teamId_userId: key } });
+    if (!existing) {
+      await prisma.teamMembership.create({
+        data: { ...key, role, source: TeamMembershipSource.IDP },
+      });
+      result.added++;
+      continue;
+    }
+    const nextRole =
+      existing.source === TeamMembershipSource.IDP ? role : maxTeamRole(existing.role, role);
+    if (nextRole !== existing.role) {
+      await prisma.teamMembership.update({ where: { id: existing.id }, data: { role: nextRole } });
+      result.updated++;
+    }
+  }
+
+  const removed = await prisma.teamMembership.deleteMany({
+    where: staleIdpMembershipsWhere(user.id, env.ssoGroupTeamMappings, keptTeamIds),
+  });
+  result.removed = removed.count;
+  return result;
+}
@@ -0,0 +1,279 @@
+// Author: Preston Lee
+
+import type { Router, Request, Response, NextFunction } from 'express';
+import {
+  InvitationStatus,
+  TeamMemberRole,
+  type TeamInvitation,
+  type TeamMembership,
+  type User,
+} from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import type { ServerEnv } from '../config/env.js';
+import { signInvitationToken } from '../auth/invitation-token.js';
+import {
+  INVITATION_MAX_TTL_DAYS,
+  InvitationError,
+  normalizeInvitationEmail,
+  parseInvitationTtlDays,
+} from '../workspace/invitations.js';
+import { maxTeamRole, parseTeamMemberRole, requireTeamAdmin } from './access.js';
+
+export const TEAM_INVITATION_MAX_USES = 10_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USER_SELECT = { id: true, email: true, displayName: true } as const;
+
+function asyncHandler(
+  fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+}
+
+/** `maxUses` for join links: omitted/null means unlimited; invalid values return undefined. */
+export function parseTeamInvitationMaxUses(raw: unknown): number | null | undefined {
+  if (raw === undefined || raw === null || raw === '') {
+    return null;
+  }
+  const uses = typeof raw === 'number' ? raw : Number(raw);
+  if (!Number.isInteger(uses) || uses < 1 || uses > TEAM_INVITATION_MAX_USES) {
+    return undefined;
+  }
+  return uses;
+}
+
+/** Admin-facing view; pending invitations carry their shareable token. */
+export function serializeTeamInvitation(invitation: TeamInvitation, env: ServerEnv) {
+  return {
+    ...invitation,
+    kind: invitation.email ? ('email' as const) : ('link' as const),
+    ...(invitation.status === InvitationStatus.PENDING && {
+      token: signInvitationToken('team', invitation.id, env.sessionSecret),
+    }),
+  };
+}
+
+async function loadRedeemableTeamInvitation(invitationId: string) {
+  const invitation = await getPrisma().teamInvitation.findUnique({
+    where: { id: invitationId },
+    include: { team: { select: { id: true, name: true, slug: true, deletedAt: true } } },
+  });
+  if (!invitation || invitation.team.deletedAt) {
+    throw new InvitationError(404, 'Invitation not found');
+  }
+  if (invitation.status !== InvitationStatus.PENDING) {
+    throw new InvitationError(409, `Invitation was already ${invitation.status.toLowerCase()}`);
+  }
+  if (invitation.expiresAt && invitation.expiresAt <= new Date()) {
+    throw new InvitationError(410, 'Invitation has expired');
+  }
+  if (invitation.maxUses !== null && invitation.useCount >= invitation.maxUses) {
+    throw new InvitationError(410, 'Invitation has no uses left');
+  }
+  return invitation;
+}
+
+/**
+ * Adds `user` to the invitation's team. Email invitations flip to ACCEPTED; join links count
+ * a use with a conditional increment so `maxUses` holds under concurrent redemption. Existing
+ * members keep their membership (never downgraded) and do not consume a link use.
+ */
+export async function acceptTeamInvitation(invitationId: string, user: User): Promise<TeamMembership> {
+  if (user.serviceAccountId) {
+    throw new InvitationError(403, 'Service accounts cannot be team members');
+  }
+  const invitation = await loadRedeemableTeamInvitation(invitationId);
+  return getPrisma().$transaction(async (tx) => {
+    const key = { teamId: invitation.teamId, userId: user.id };
+    const existing = await tx.teamMembership.findUnique({ where: { teamId_userId: key } });
+    if (invitation.email || !existing) {
+      const claimed = await tx.teamInvitation.updateMany({
+        where: {
+          id: invitation.id,
+          status: InvitationStatus.PENDING,
+          ...(invitation.maxUses !== null && { useCount: { lt: invitation.maxUses } }),
+        },
+        data: invitation.email
+          ? {
+              status: InvitationStatus.ACCEPTED,
+              useCount: { increment: 1 },
+              respondedAt: new Date(),
+              respondedByUserId: user.id,
+            }
+          : { useCount: { increment: 1 } },
+      });
+      if (claimed.count === 0) {
+        throw new InvitationError(409, 'Invitation is no longer available');
+      }
+    }
+    const role = maxTeamRole(existing?.role ?? null, invitation.role);
+    return tx.teamMembership.upsert({
+      where: { teamId_userId: key },
+      create: { ...key, role },
+      update: { role },
+    });
+  });
+}
+
+export async function declineTeamInvitation(invitationId: string, user: User): Promise<void> {
+  const invitation = await loadRedeemableTeamInvitation(invitationId);
+  if (!invitation.email) {
+    throw new InvitationError(409, 'Join links cannot be declined');
+  }
+  const claimed = await getPrisma().teamInvitation.updateMany({
+    where: { id: invitation.id, status: InvitationStatus.PENDING },
+    data: { status: InvitationStatus.DECLINED, respondedAt: new Date(), respondedByUserId: user.id },
+  });
+  if (claimed.count === 0) {
+    throw new InvitationError(409, 'Invitation is no longer pending');
+  }
+}
+
+/** Pending, unexpired email invitations addressed to the user's verified email on live teams. */
+export async function listPendingTeamInvitationsFor(user: User) {
+  if (!user.email || !user.emailVerified) {
+    return [];
+  }
+  return getPrisma().teamInvitation.findMany({
+    where: {
+      email: user.email.trim().toLowerCase(),
+      status: InvitationStatus.PENDING,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      team: { deletedAt: null },
+    },
+    include: {
+      team: { select: { id: true, name: true, slug: true } },
+      invitedBy: { select: USER_SELECT },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/** Accepts every pending team email invitation for the user (OIDC callback). Returns the count. */
+export async function convertPendingTeamInvitations(user: User): Promise<number> {
+  let converted = 0;
+  for (const invitation of await listPendingTeamInvitationsFor(user)) {
+    try {
+      await acceptTeamInvitation(invitation.id, user);
+      converted++;
+    } catch (err) {
+      if (!(err instanceof InvitationError)) {
+        throw err;
+      }
+    }
+  }
+  return converted;
+}
+
+/** Admin management under /api/teams/:id/invitations (mounted on the team router). */
+export function registerTeamInvitationRoutes(router: Router, env: ServerEnv): void {
+  router.get(
+    '/:id/invitations',
+    asyncHandler(async (req, res) => {
+      if (!(await requireTeamAdmin(req.params.id, req.user!.id))) {
+        res.status(403).json({ error: 'Team admin required' });
+        return;
+      }
+      const statusRaw = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : '';
+      if (statusRaw && !(statusRaw in InvitationStatus)) {
+        res.status(400).json({ error: 'status must be PENDING, ACCEPTED, DECLINED or REVOKED' });
+        return;
+      }
+      const invitations = await getPrisma().teamInvitation.findMany({
+        where: {
+          teamId: req.params.id,
+          ...(statusRaw && { status: statusRaw as InvitationStatus }),
+        },
+        include: { invitedBy: { select: USER_SELECT } },
+        orderBy: { createdAt: 'desc' },
+      });
+      res.json(invitations.map((i) => serializeTeamInvitation(i, env)));
+    })
+  );
+
+  router.post(
+    '/:id/invitations',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      const teamId = req.params.id;
+      if (!(await requireTeamAdmin(teamId, user.id))) {
+        res.status(403).json({ error: 'Team admin required' });
+        return;
+      }
+      const role =
+        req.body?.role === undefined ? TeamMemberRole.MEMBER : parseTeamMemberRole(req.body.role);
+      if (!role) {
+        res.status(400).json({ error: 'role must be ADMIN or MEMBER' });
+        return;
+      }
+      const emailRaw = req.body?.email;
+      const isLink = emailRaw === undefined || emailRaw === null || emailRaw === '';
+      const email = isLink ? null : normalizeInvitationEmail(emailRaw);
+      if (!isLink && !email) {
+        res.status(400).json({ error: 'email is not a valid address' });
+        return;
+      }
+      // Join links never expire unless asked to; email invitations default to the standard TTL.
+      const noExpiry = isLink && (req.body?.expiresInDays === undefined || req.body?.expiresInDays === null);
+      const ttlDays = noExpiry ? null : parseInvitationTtlDays(req.body?.expiresInDays);
+      if (!noExpiry && ttlDays === null) {
+        res.status(400).json({
+          error: `expiresInDays must be an integer between 1 and ${INVITATION_MAX_TTL_DAYS}`,
+        });
+        return;
+      }
+      const maxUses = isLink ? parseTeamInvitationMaxUses(req.body?.maxUses) : null;
+      if (maxUses === undefined) {
+        res.status(400).json({
+          error: `maxUses must be an integer between 1 and ${TEAM_INVITATION_MAX_USES}`,
+        });
+        return;
+      }
+      const expiresAt = ttlDays === null ? null : new Date(Date.now() + ttlDays * DAY_MS);
+      const prisma = getPrisma();
+      const pending = email
+        ? await prisma.teamInvitation.findFirst({
+            where: { teamId, email, status: InvitationStatus.PENDING },
+          })
+        : null;
+      const invitation = pending
+        ? await prisma.teamInvitation.update({
+            where: { id: pending.id },
+            data: { role, expiresAt, invitedByUserId: user.id },
+          })
+        : await prisma.teamInvitation.create({
+            data: { teamId, email, role, expiresAt, maxUses, invitedByUserId: user.id },
+          });
+      res.status(pending ? 200 : 201).json(serializeTeamInvitation(invitation, env));
+    })
+  );
+
+  router.delete(
+    '/:id/invitations/:invitationId',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      if (!(await requireTeamAdmin(req.params.id, user.id))) {
+        res.status(403).json({ error: 'Team admin required' });
+        return;
+      }
+      const existing = await getPrisma().teamInvitation.findFirst({
+        where: { id: req.params.invitationId, teamId: req.params.id },
+      });
+      if (!existing) {
+        res.status(404).json({ error: 'Invitation not found' });
+        return;
+      }
+      if (existing.status !== InvitationStatus.PENDING) {
+        res.status(409).json({ error: `Invitation was already ${existing.status.toLowerCase()}` });
+        return;
+      }
+      await getPrisma().teamInvitation.update({
+        where: { id: existing.id },
+        data: { status: InvitationStatus.REVOKED, respondedAt: new Date(), respondedByUserId: user.id },
+      });
+      res.status(204).send();
+    })
+  );
+}
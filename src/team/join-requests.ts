@@ -0,0 +1,174 @@
+// Author: Preston Lee
+
+import type { Router, Request, Response, NextFunction } from 'express';
+import { TeamJoinRequestStatus, TeamMemberRole } from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import { parseTeamMemberRole, requireTeamAdmin } from './access.js';
+
+const USER_SELECT = { id: true, email: true, displayName: true } as const;
+const JOIN_REQUEST_MESSAGE_MAX_LENGTH = 1000;
+
+function asyncHandler(
+  fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+}
+
+/**
+ * Join requests under /api/teams/:id/join-requests (mounted on the team router). Any signed-in
+ * non-member may request to join a live team; admins approve (creating the membership) or deny.
+ */
+export function registerTeamJoinRequestRoutes(router: Router): void {
+  router.post(
+    '/:id/join-requests',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      if (user.serviceAccountId) {
+        res.status(403).json({ error: 'Service accounts cannot be team members' });
+        return;
+      }
+      const teamId = req.params.id;
+      const prisma = getPrisma();
+      const team = await prisma.team.findUnique({ where: { id: teamId } });
+      if (!team || team.deletedAt) {
+        res.status(404).json({ error: 'Team not found' });
+        return;
+      }
+      const membership = await prisma.teamMembership.findUnique({
+        where: { teamId_userId: { teamId, userId: user.id } },
+      });
+      if (membership) {
+        res.status(409).json({ error: 'Already a member of this team' });
+        return;
+      }
+      const pending = await prisma.teamJoinRequest.findFirst({
+        where: { teamId, userId: user.id, status: TeamJoinRequestStatus.PENDING },
+      });
+      if (pending) {
+        res.status(409).json({ error: 'A join request is already pending', requestId: pending.id });
+        return;
+      }
+      const message =
+        typeof req.body?.message === 'string'
+          ? req.body.message.trim().slice(0, JOIN_REQUEST_MESSAGE_MAX_LENGTH) || null
+          : null;
+      const request = await prisma.teamJoinRequest.create({
+        data: { teamId, userId: user.id, message },
+      });
+      res.status(201).json(request);
+    })
+  );
+
+  router.get(
+    '/:id/join-requests',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      const teamId = req.params.id;
+      const isAdmin = await requireTeamAdmin(teamId, user.id);
+      const statusRaw = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : '';
+      if (statusRaw && !(statusRaw in TeamJoinRequestStatus)) {
+        res.status(400).json({ error: 'status must be PENDING, APPROVED or DENIED' });
+        return;
+      }
+      // Non-admins only ever see their own requests.
+      const requests = await getPrisma().teamJoinRequest.findMany({
+        where: {
+          teamId,
+          ...(!isAdmin && { userId: user.id }),
+          ...(statusRaw && { status: statusRaw as TeamJoinRequestStatus }),
+        },
+        include: {
+          user: { select: USER_SELECT },
+          decidedBy: { select: USER_SELECT },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      res.json(requests);
+    })
+  );
+
+  for (const decision of ['approve', 'deny'] as const) {
+    router.post(
+      `/:id/join-requests/:requestId/${decision}`,
+      asyncHandler(async (req, res) => {
+        const user = req.user!;
+        const teamId = req.params.id;
+        if (!(await requireTeamAdmin(teamId, user.id))) {
+          res.status(403).json({ error: 'Team admin required' });
+          return;
+        }
+        const role =
+          decision === 'approve' && req.body?.role !== undefined
+            ? parseTeamMemberRole(req.body.role)
+            : TeamMemberRole.MEMBER;
+        if (!role) {
+          res.status(400).json({ error: 'role must be ADMIN or MEMBER' });
+          return;
+        }
+        const prisma = getPrisma();
+        const existing = await prisma.teamJoinRequest.findFirst({
+          where: { id: req.params.requestId, teamId },
+        });
+        if (!existing) {
+          res.status(404).json({ error: 'Join request not found' });
+          return;
+        }
+        const updated = await prisma.$transaction(async (tx) => {
+          const claimed = await tx.teamJoinRequest.updateMany({
+            where: { id: existing.id, status: TeamJoinRequestStatus.PENDING },
+            data: {
+              status:
+                decision === 'approve' ? TeamJoinRequestStatus.APPROVED : TeamJoinRequestStatus.DENIED,
+              decidedByUserId: user.id,
+              decidedAt: new Date(),
+            },
+          });
+          if (claimed.count === 0) {
+            return null;
+          }
+          if (decision === 'approve') {
+            await tx.teamMembership.upsert({
+              where: { teamId_userId: { teamId, userId: existing.userId } },
+              create: { teamId, userId: existing.userId, role },
+              update: {},
+            });
+          }
+          return tx.teamJoinRequest.findUniqueOrThrow({
+            where: { id: existing.id },
+            include: {
+              user: { select: USER_SELECT },
+              decidedBy: { select: USER_SELECT },
+            },
+          });
+        });
+        if (!updated) {
+          res.status(409).json({ error: 'Join request is no longer pending' });
+          return;
+        }
+        res.json(updated);
+      })
+    );
+  }
+
+  router.delete(
+    '/:id/join-requests/:requestId',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      const existing = await getPrisma().teamJoinRequest.findFirst({
+        where: { id: req.params.requestId, teamId: req.params.id },
+      });
+      if (!existing || existing.userId !== user.id) {
+        res.status(404).json({ error: 'Join request not found' });
+        return;
+      }
+      if (existing.status !== TeamJoinRequestStatus.PENDING) {
+        res.status(409).json({ error: `Join request was already ${existing.status.toLowerCase()}` });
+        return;
+      }
+      await getPrisma().teamJoinRequest.delete({ where: { id: existing.id } });
+      res.status(204).send();
+    })
+  );
+}
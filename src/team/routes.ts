@@ -5,8 +5,15 @@ import type { Request, Response, NextFunction } from 'express';
 import { TeamMemberRole, WorkspaceRole } from '@prisma/client';
 import { getPrisma } from '../db/prisma.js';
 import type { ServerEnv } from '../config/env.js';
+import { requireCsrf } from '../auth/csrf.js';
 import { requireAuth, requireSsoConfigured } from '../auth/session.js';
-import { uniqueSlug } from '../workspace/access.js';
+import { checkIfMatch, ifMatchWhere, sendPreconditionFailed, setEntityTag } from '../http/etag.js';
+import { trashPurgeAt } from '../services/trash-purge.js';
+import { countOwners, uniqueSlug } from '../workspace/access.js';
+import { requireTeamAdmin } from './access.js';
+import { registerTeamInvitationRoutes } from './invitations.js';
+import { registerTeamJoinRequestRoutes } from './join-requests.js';
+import { registerServiceAccountRoutes } from './service-accounts.js';
 
 function asyncHandler(
   fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
@@ -16,24 +23,18 @@ function asyncHandler(
   };
 }
 
-async function requireTeamAdmin(teamId: string, userId: string): Promise<boolean> {
-  const membership = await getPrisma().teamMembership.findUnique({
-    where: { teamId_userId: { teamId, userId } },
-  });
-  return membership?.role === TeamMemberRole.ADMIN;
-}
-
 export function createTeamRouter(env: ServerEnv): Router {
   const router = Router();
   router.use(requireSsoConfigured(env));
   router.use(requireAuth(env));
+  router.use(requireCsrf(env));
 
   router.get(
     '/',
     asyncHandler(async (req, res) => {
       const user = req.user!;
       const memberships = await getPrisma().teamMembership.findMany({
-        where: { userId: user.id },
+        where: { userId: user.id, team: { deletedAt: null } },
         include: { team: true },
         orderBy: { createdAt: 'asc' },
       });
@@ -46,10 +47,38 @@ export function createTeamRouter(env: ServerEnv): Router {
     })
   );
 
+  router.get(
+    '/trash',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      const memberships = await getPrisma().teamMembership.findMany({
+        where: { userId: user.id, role: TeamMemberRole.ADMIN, team: { deletedAt: { not: null } } },
+        include: {
+          team: {
+            include: { deletedBy: { select: { id: true, email: true, displayName: true } } },
+          },
+        },
+      });
+      res.json(
+        memberships
+          .map((m) => ({
+            ...m.team,
+            myRole: m.role,
+            purgeAt: trashPurgeAt(m.team.deletedAt!, env.trashRetentionDays).toISOString(),
+          }))
+          .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime())
+      );
+    })
+  );
+
   router.post(
     '/',
     asyncHandler(async (req, res) => {
       const user = req.user!;
+      if (user.serviceAccountId) {
+        res.status(403).json({ error: 'Service accounts cannot be team members' });
+        return;
+      }
       const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
       if (!name) {
         res.status(400).json({ error: 'name is required' });
@@ -67,6 +96,7 @@ export function createTeamRouter(env: ServerEnv): Router {
           },
         },
       });
+      setEntityTag(res, team);
       res.status(201).json({ ...team, myRole: TeamMemberRole.ADMIN });
     })
   );
@@ -85,7 +115,7 @@ export function createTeamRouter(env: ServerEnv): Router {
           },
         },
       });
-      if (!team) {
+      if (!team || team.deletedAt) {
         res.status(404).json({ error: 'Team not found' });
         return;
       }
@@ -94,6 +124,7 @@ export function createTeamRouter(env: ServerEnv): Router {
         res.status(403).json({ error: 'Forbidden' });
         return;
       }
+      setEntityTag(res, team);
       res.json({ ...team, myRole: mine.role });
     })
   );
@@ -112,10 +143,24 @@ export function createTeamRouter(env: ServerEnv): Router {
         res.status(400).json({ error: 'name is required' });
         return;
       }
-      const team = await getPrisma().team.update({
-        where: { id: teamId },
+      const existing = await getPrisma().team.findUnique({ where: { id: teamId } });
+      if (!existing) {
+        res.status(404).json({ error: 'Team not found' });
+        return;
+      }
+      if (!checkIfMatch(req, res, existing)) {
+        return;
+      }
+      const { count } = await getPrisma().team.updateMany({
+        where: { id: teamId, ...ifMatchWhere(req, existing) },
         data: { name },
       });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
+      const team = await getPrisma().team.findUniqueOrThrow({ where: { id: teamId } });
+      setEntityTag(res, team);
       res.json(team);
     })
   );
@@ -129,40 +174,71 @@ export function createTeamRouter(env: ServerEnv): Router {
         res.status(403).json({ error: 'Team admin required' });
         return;
       }
-      const soleOwnerCount = await getPrisma().workspaceAccessGrant.count({
+      const existing = await getPrisma().team.findUnique({ where: { id: teamId } });
+      if (!existing) {
+        res.status(404).json({ error: 'Team not found' });
+        return;
+      }
+      if (!checkIfMatch(req, res, existing)) {
+        return;
+      }
+      // Block delete if this team is the only active owner of any workspace (see countOwners).
+      const ownerGrants = await getPrisma().workspaceAccessGrant.findMany({
         where: {
           principalType: 'TEAM',
           principalId: teamId,
           role: WorkspaceRole.OWNER,
         },
       });
-      // Block delete if this team is an owner of any workspace where it is the only owner grant
-      if (soleOwnerCount > 0) {
-        const ownerGrants = await getPrisma().workspaceAccessGrant.findMany({
-          where: {
-            principalType: 'TEAM',
-            principalId: teamId,
-            role: WorkspaceRole.OWNER,
-          },
-        });
-        for (const grant of ownerGrants) {
-          const owners = await getPrisma().workspaceAccessGrant.count({
-            where: { workspaceId: grant.workspaceId, role: WorkspaceRole.OWNER },
+      for (const grant of ownerGrants) {
+        if ((await countOwners(grant.workspaceId, grant.id)) === 0) {
+          res.status(409).json({
+            error:
+              'Cannot delete team: it is the sole owner of one or more workspaces. Reassign ownership first.',
           });
-          if (owners <= 1) {
-            res.status(409).json({
-              error:
-                'Cannot delete team: it is the sole owner of one or more workspaces. Reassign ownership first.',
-            });
-            return;
-          }
+          return;
         }
       }
-      await getPrisma().team.delete({ where: { id: teamId } });
+      // Trashed teams stop conferring access immediately; their grants are only removed at purge.
+      const { count } = await getPrisma().team.updateMany({
+        where: { id: teamId, ...ifMatchWhere(req, existing) },
+        data: { deletedAt: new Date(), deletedByUserId: user.id },
+      });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
       res.status(204).send();
     })
   );
 
+  router.post(
+    '/:id/restore',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      const teamId = req.params.id;
+      if (!(await requireTeamAdmin(teamId, user.id, true))) {
+        res.status(403).json({ error: 'Team admin required' });
+        return;
+      }
+      const existing = await getPrisma().team.findUnique({ where: { id: teamId } });
+      if (!existing) {
+        res.status(404).json({ error: 'Team not found' });
+        return;
+      }
+      if (!existing.deletedAt) {
+        res.status(409).json({ error: 'Team is not in the trash' });
+        return;
+      }
+      const team = await getPrisma().team.update({
+        where: { id: teamId },
+        data: { deletedAt: null, deletedByUserId: null },
+      });
+      setEntityTag(res, team);
+      res.json({ ...team, myRole: TeamMemberRole.ADMIN });
+    })
+  );
+
   router.post(
     '/:id/members',
     asyncHandler(async (req, res) => {
@@ -184,6 +260,10 @@ export function createTeamRouter(env: ServerEnv): Router {
         res.status(404).json({ error: 'User not found' });
         return;
       }
+      if (target.serviceAccountId) {
+        res.status(400).json({ error: 'Service accounts cannot be team members' });
+        return;
+      }
       const membership = await getPrisma().teamMembership.upsert({
         where: { teamId_userId: { teamId, userId } },
         create: { teamId, userId, role },
@@ -227,5 +307,9 @@ export function createTeamRouter(env: ServerEnv): Router {
     })
   );
 
+  registerTeamInvitationRoutes(router, env);
+  registerTeamJoinRequestRoutes(router);
+  registerServiceAccountRoutes(router);
+
   return router;
 }
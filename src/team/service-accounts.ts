@@ -0,0 +1,268 @@
+// Author: Preston Lee
+
+import type { Router, Request, Response, NextFunction } from 'express';
+import {
+  WorkspacePrincipalType,
+  WorkspaceRole,
+  type ServiceAccount,
+  type User,
+} from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import {
+  generateServiceAccountClientId,
+  generateServiceAccountSecret,
+  SERVICE_ACCOUNT_ISSUER,
+} from '../auth/service-account-credentials.js';
+import { countOwners } from '../workspace/access.js';
+import { requireTeamAdmin } from './access.js';
+
+export const SERVICE_ACCOUNT_NAME_MAX_LENGTH = 100;
+export const SERVICE_ACCOUNT_DESCRIPTION_MAX_LENGTH = 1000;
+export const SERVICE_ACCOUNT_MAX_PER_TEAM = 50;
+
+function asyncHandler(
+  fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+}
+
+/** Never includes the secret hash; the secret itself is only returned on create and rotate. */
+function serializeServiceAccount(account: ServiceAccount & { user: User | null }) {
+  return {
+    id: account.id,
+    teamId: account.teamId,
+    name: account.name,
+    description: account.description,
+    clientId: account.clientId,
+    userId: account.user?.id ?? null,
+    createdByUserId: account.createdByUserId,
+    lastUsedAt: account.lastUsedAt,
+    createdAt: account.createdAt,
+    updatedAt: account.updatedAt,
+  };
+}
+
+/** Returns the trimmed name, or undefined when invalid. */
+function parseServiceAccountName(raw: unknown): string | undefined {
+  const name = typeof raw === 'string' ? raw.trim() : '';
+  return name && name.length <= SERVICE_ACCOUNT_NAME_MAX_LENGTH ? name : undefined;
+}
+
+/** `description`: string or null; undefined when invalid. */
+function parseServiceAccountDescription(raw: unknown): string | null | undefined {
+  if (raw === null || raw === undefined) {
+    return null;
+  }
+  if (typeof raw !== 'string' || raw.length > SERVICE_ACCOUNT_DESCRIPTION_MAX_LENGTH) {
+    return undefined;
+  }
+  return raw.trim() || null;
+}
+
+/** Service accounts cannot administer service accounts, even if added to a team as admin. */
+async function requireHumanTeamAdmin(req: Request, res: Response): Promise<boolean> {
+  if (req.user!.serviceAccountId || !(await requireTeamAdmin(req.params.id, req.user!.id))) {
+    res.status(403).json({ error: 'Team admin required' });
+    return false;
+  }
+  return true;
+}
+
+async function findTeamServiceAccount(teamId: string, accountId: string) {
+  return getPrisma().serviceAccount.findFirst({
+    where: { id: accountId, teamId, deletedAt: null },
+    include: { user: true },
+  });
+}
+
+/**
+ * Team-owned service accounts under /api/teams/:id/service-accounts (mounted on the team
+ * router); team ADMINs only. Each account gets a backing User row so workspace activity and
+ * access checks treat it like any other actor; it reaches workspaces only through
+ * SERVICE_ACCOUNT grants.
+ */
+export function registerServiceAccountRoutes(router: Router): void {
+  router.get(
+    '/:id/service-accounts',
+    asyncHandler(async (req, res) => {
+      if (!(await requireHumanTeamAdmin(req, res))) {
+        return;
+      }
+      const accounts = await getPrisma().serviceAccount.findMany({
+        where: { teamId: req.params.id, deletedAt: null },
+        include: { user: true },
+        orderBy: { createdAt: 'asc' },
+      });
+      res.json(accounts.map(serializeServiceAccount));
+    })
+  );
+
+  router.post(
+    '/:id/service-accounts',
+    asyncHandler(async (req, res) => {
+      if (!(await requireHumanTeamAdmin(req, res))) {
+        return;
+      }
+      const teamId = req.params.id;
+      const name = parseServiceAccountName(req.body?.name);
+      if (!name) {
+        res.status(400).json({
+          error: `name is required (at most ${SERVICE_ACCOUNT_NAME_MAX_LENGTH} characters)`,
+        });
+        return;
+      }
+      const description = parseServiceAccountDescription(req.body?.description);
+      if (description === undefined) {
+        res.status(400).json({
+          error: `description must be a string of at most ${SERVICE_ACCOUNT_DESCRIPTION_MAX_LENGTH} characters`,
+        });
+        return;
+      }
+      const prisma = getPrisma();
+      const count = await prisma.serviceAccount.count({ where: { teamId, deletedAt: null } });
+      if (count >= SERVICE_ACCOUNT_MAX_PER_TEAM) {
+        res.status(409).json({
+          error: `At most ${SERVICE_ACCOUNT_MAX_PER_TEAM} service accounts per team`,
+        });
+        return;
+      }
+      const clientId = generateServiceAccountClientId();
+      const { secret, secretHash } = generateServiceAccountSecret();
+      const account = await prisma.$transaction(async (tx) => {
+        const created = await tx.serviceAccount.create({
+          data: { teamId, name, description, clientId, secretHash, createdByUserId: req.user!.id },
+        });
+        await tx.user.create({
+          data: {
+            ssoIssuer: SERVICE_ACCOUNT_ISSUER,
+            ssoSubject: clientId,
+            displayName: name,
+            serviceAccountId: created.id,
+          },
+        });
+        return tx.serviceAccount.findUniqueOrThrow({
+          where: { id: created.id },
+          include: { user: true },
+        });
+      });
+      res.status(201).json({ ...serializeServiceAccount(account), clientSecret: secret });
+    })
+  );
+
+  router.patch(
+    '/:id/service-accounts/:accountId',
+    asyncHandler(async (req, res) => {
+      if (!(await requireHumanTeamAdmin(req, res))) {
+        return;
+      }
+      const existing = await findTeamServiceAccount(req.params.id, req.params.accountId);
+      if (!existing) {
+        res.status(404).json({ error: 'Service account not found' });
+        return;
+      }
+      const name =
+        req.body?.name === undefined ? existing.name : parseServiceAccountName(req.body.name);
+      if (!name) {
+        res.status(400).json({
+          error: `name must be at most ${SERVICE_ACCOUNT_NAME_MAX_LENGTH} characters`,
+        });
+        return;
+      }
+      const description =
+        req.body?.description === undefined
+          ? existing.description
+          : parseServiceAccountDescription(req.body.description);
+      if (description === undefined) {
+        res.status(400).json({
+          error: `description must be a string of at most ${SERVICE_ACCOUNT_DESCRIPTION_MAX_LENGTH} characters`,
+        });
+        return;
+      }
+      const prisma = getPrisma();
+      const [account] = await prisma.$transaction([
+        prisma.serviceAccount.update({
+          where: { id: existing.id },
+          data: { name, description },
+          include: { user: true },
+        }),
+        prisma.user.updateMany({
+          where: { serviceAccountId: existing.id },
+          data: { displayName: name },
+        }),
+      ]);
+      res.json(serializeServiceAccount(account));
+    })
+  );
+
+  /** Rotates the secret; the previous secret stops working immediately. */
+  router.post(
+    '/:id/service-accounts/:accountId/secret',
+    asyncHandler(async (req, res) => {
+      if (!(await requireHumanTeamAdmin(req, res))) {
+        return;
+      }
+      const existing = await findTeamServiceAccount(req.params.id, req.params.accountId);
+      if (!existing) {
+        res.status(404).json({ error: 'Service account not found' });
+        return;
+      }
+      const { secret, secretHash } = generateServiceAccountSecret();
+      const account = await getPrisma().serviceAccount.update({
+        where: { id: existing.id },
+        data: { secretHash },
+        include: { user: true },
+      });
+      res.json({ ...serializeServiceAccount(account), clientSecret: secret });
+    })
+  );
+
+  /**
+   * Stops the account from authenticating and removes its workspace grants. The row and its
+   * backing user stay so past activity still shows the service account.
+   */
+  router.delete(
+    '/:id/service-accounts/:accountId',
+    asyncHandler(async (req, res) => {
+      if (!(await requireHumanTeamAdmin(req, res))) {
+        return;
+      }
+      const existing = await findTeamServiceAccount(req.params.id, req.params.accountId);
+      if (!existing) {
+        res.status(404).json({ error: 'Service account not found' });
+        return;
+      }
+      const prisma = getPrisma();
+      const ownerGrants = await prisma.workspaceAccessGrant.findMany({
+        where: {
+          principalType: WorkspacePrincipalType.SERVICE_ACCOUNT,
+          principalId: existing.id,
+          role: WorkspaceRole.OWNER,
+        },
+      });
+      for (const grant of ownerGrants) {
+        if ((await countOwners(grant.workspaceId, grant.id)) === 0) {
+          res.status(409).json({
+            error:
+              'Cannot delete service account: it is the sole owner of one or more workspaces. Reassign ownership first.',
+          });
+          return;
+        }
+      }
+      await prisma.$transaction([
+        prisma.serviceAccount.update({
+          where: { id: existing.id },
+          data: { deletedAt: new Date() },
+        }),
+        prisma.workspaceAccessGrant.deleteMany({
+          where: {
+            principalType: WorkspacePrincipalType.SERVICE_ACCOUNT,
+            principalId: existing.id,
+          },
+        }),
+      ]);
+      res.status(204).send();
+    })
+  );
+}
@@ -0,0 +1,157 @@
+// Author: Preston Lee
+
+import { WorkspacePrincipalType, WorkspaceRole, type WorkspaceAccessGrant } from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import { principalKey } from '../workspace/access.js';
+
+export interface DisableUserResult {
+  /** Sessions ended. */
+  sessions: number;
+  /** Workspaces newly flagged with `ownerMissingSince`. */
+  ownerlessWorkspaceIds: string[];
+}
+
+type OwnerGrant = Pick<WorkspaceAccessGrant, 'principalType' | 'principalId'>;
+
+/** True when any OWNER grant belongs to a principal in `activePrincipals` (see `principalKey`). */
+export function hasActiveOwner(
+  ownerGrants: readonly OwnerGrant[],
+  activePrincipals: ReadonlySet<string>
+): boolean {
+  return ownerGrants.some((grant) => activePrincipals.has(principalKey(grant)));
+}
+
+/**
+ * Flags the workspaces `userId` owns directly that no longer have an active owner: every OWNER
+ * grant belongs to a disabled user, a trashed team or a deleted service account. Site admins
+ * find them with `GET /api/admin/workspaces?ownerMissing=true`.
+ */
+async function flagWorkspacesWithoutOwner(userId: string, now: Date): Promise<string[]> {
+  const prisma = getPrisma();
+  const owned = await prisma.workspaceAccessGrant.findMany({
+    where: {
+      principalType: WorkspacePrincipalType.USER,
+      principalId: userId,
+      role: WorkspaceRole.OWNER,
+      workspace: { ownerMissingSince: null },
+    },
+    select: { workspaceId: true },
+  });
+  if (!owned.length) {
+    return [];
+  }
+  const workspaceIds = owned.map((g) => g.workspaceId);
+  const ownerGrants = await prisma.workspaceAccessGrant.findMany({
+    where: { workspaceId: { in: workspaceIds }, role: WorkspaceRole.OWNER },
+  });
+  const idsOf = (type: WorkspacePrincipalType) =>
+    ownerGrants.filter((g) => g.principalType === type).map((g) => g.principalId);
+  const [users, teams, accounts] = await Promise.all([
+    prisma.user.findMany({
+      where: { id: { in: idsOf(WorkspacePrincipalType.USER) }, disabledAt: null },
+      select: { id: true },
+    }),
+    prisma.team.findMany({
+      where: { id: { in: idsOf(WorkspacePrincipalType.TEAM) }, deletedAt: null },
+      select: { id: true },
+    }),
+    prisma.serviceAccount.findMany({
+      where: {
+        id: { in: idsOf(WorkspacePrincipalType.SERVICE_ACCOUNT) },
+        deletedAt: null,
+        team: { deletedAt: null },
+      },
+      select: { id: true },
+    }),
+  ]);
+  const keysOf = (principalType: WorkspacePrincipalType, rows: { id: string }[]) =>
+    rows.map((row) => principalKey({ principalType, principalId: row.id }));
+  const active = new Set([
+    ...keysOf(WorkspacePrincipalType.USER, users),
+    ...keysOf(WorkspacePrincipalType.TEAM, teams),
+    ...keysOf(WorkspacePrincipalType.SERVICE_ACCOUNT, accounts),
+  ]);
+  const ownerless = workspaceIds.filter(
+    (id) => !hasActiveOwner(ownerGrants.filter((g) => g.workspaceId === id), active)
+  );
+  if (ownerless.length) {
+    await prisma.workspace.updateMany({
+      where: { id: { in: ownerless }, ownerMissingSince: null },
+      data: { ownerMissingSince: now },
+    });
+  }
+  return ownerless;
+}
+
+/**
+ * Disables the user (admin API, SCIM `active: false`): ends every session and flags the
+ * workspaces they were the last active owner of. Grants and memberships are kept so
+ * re-enabling restores access.
+ */
+export async function disableUser(
+  userId: string,
+  now: Date = new Date()
+): Promise<DisableUserResult> {
+  const prisma = getPrisma();
+  const [, sessions] = await prisma.$transaction([
+    prisma.user.updateMany({ where: { id: userId, disabledAt: null }, data: { disabledAt: now } }),
+    prisma.session.deleteMany({ where: { userId } }),
+  ]);
+  const ownerlessWorkspaceIds = await flagWorkspacesWithoutOwner(userId, now);
+  if (ownerlessWorkspaceIds.length) {
+    console.warn(
+      `[users] Disabling ${userId} left ${ownerlessWorkspaceIds.length} workspace(s) without an active owner`
+    );
+  }
+  return { sessions: sessions.count, ownerlessWorkspaceIds };
+}
+
+/** Re-enables the user and clears the owner-missing flag of workspaces they own again. */
+export async function enableUser(userId: string): Promise<void> {
+  const prisma = getPrisma();
+  await prisma.$transaction([
+    prisma.user.update({ where: { id: userId }, data: { disabledAt: null } }),
+    prisma.workspace.updateMany({
+      where: {
+        ownerMissingSince: { not: null },
+        grants: {
+          some: {
+            principalType: WorkspacePrincipalType.USER,
+            principalId: userId,
+            role: WorkspaceRole.OWNER,
+          },
+        },
+      },
+      data: { ownerMissingSince: null },
+    }),
+  ]);
+}
+
+/**
+ * SCIM delete: disables the user, then removes their team memberships, workspace grants and
+ * personal access tokens. The row stays (marked `deprovisionedAt`) so activity keeps its actor.
+ */
+export async function deprovisionUser(
+  userId: string,
+  now: Date = new Date()
+): Promise<DisableUserResult> {
+  const result = await disableUser(userId, now);
+  const prisma = getPrisma();
+  await prisma.$transaction([
+    prisma.user.update({ where: { id: userId }, data: { deprovisionedAt: now } }),
+    prisma.teamMembership.deleteMany({ where: { userId } }),
+    prisma.workspaceAccessGrant.deleteMany({
+      where: { principalType: WorkspacePrincipalType.USER, principalId: userId },
+    }),
+    prisma.personalAccessToken.deleteMany({ where: { userId } }),
+  ]);
+  return result;
+}
+
+/** Called whenever an OWNER grant is written, so a flagged workspace stops being listed. */
+export async function clearWorkspaceOwnerMissing(workspaceId: string): Promise<void> {
+  await getPrisma().workspace.updateMany({
+    where: { id: workspaceId, ownerMissingSince: { not: null } },
+    data: { ownerMissingSince: null },
+  });
+}
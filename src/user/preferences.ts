@@ -0,0 +1,177 @@
+// Author: Preston Lee
+
+export const USER_THEMES = ['light', 'dark', 'system'] as const;
+export const USER_EDITOR_KEYBINDINGS = ['default', 'vim', 'emacs'] as const;
+
+export type UserTheme = (typeof USER_THEMES)[number];
+export type UserEditorKeybindings = (typeof USER_EDITOR_KEYBINDINGS)[number];
+
+export interface UserEditorPreferences {
+  fontSize?: number;
+  tabSize?: number;
+  wordWrap?: boolean;
+  keybindings?: UserEditorKeybindings;
+}
+
+/** Settings CQL Studio would otherwise keep in browser local storage. */
+export interface UserPreferences {
+  theme?: UserTheme;
+  editor?: UserEditorPreferences;
+  ollamaBaseUrl?: string;
+  searxngBaseUrl?: string;
+}
+
+export const DISPLAY_NAME_OVERRIDE_MAX_LENGTH = 100;
+export const PROFILE_URL_MAX_LENGTH = 2048;
+
+/** Thrown for invalid profile or preference input; routes answer 400 with the message. */
+export class UserPreferencesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserPreferencesError';
+    Object.setPrototypeOf(this, UserPreferencesError.prototype);
+  }
+}
+
+/** Absolute http(s) URL without credentials; trailing slashes are dropped. */
+export function parseHttpUrl(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.trim().length > PROFILE_URL_MAX_LENGTH) {
+    throw new UserPreferencesError(`${path} must be an http(s) URL`);
+  }
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new UserPreferencesError(`${path} must be an http(s) URL`);
+  }
+  if ((url.protocol !== 'http:' && url.protocol !== 'https:') || url.username || url.password) {
+    throw new UserPreferencesError(`${path} must be an http(s) URL without credentials`);
+  }
+  return url.href.replace(/\/+$/, '');
+}
+
+function parseEnum<T extends string>(value: unknown, allowed: readonly T[], path: string): T {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new UserPreferencesError(`${path} must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function parseBoundedInt(value: unknown, min: number, max: number, path: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new UserPreferencesError(`${path} must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function requireObject(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new UserPreferencesError(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function rejectUnknownKeys(obj: Record<string, unknown>, known: readonly string[], path: string): void {
+  const unknown = Object.keys(obj).filter((k) => !known.includes(k));
+  if (unknown.length) {
+    throw new UserPreferencesError(`Unknown ${path} field(s): ${unknown.join(', ')}`);
+  }
+}
+
+function mergeEditor(current: UserEditorPreferences | undefined, raw: unknown): UserEditorPreferences | undefined {
+  if (raw === null) {
+    return undefined;
+  }
+  const patch = requireObject(raw, 'editor');
+  rejectUnknownKeys(patch, ['fontSize', 'tabSize', 'wordWrap', 'keybindings'], 'editor');
+  const next: UserEditorPreferences = { ...current };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete next[key as keyof UserEditorPreferences];
+    } else if (key === 'fontSize') {
+      next.fontSize = parseBoundedInt(value, 8, 40, 'editor.fontSize');
+    } else if (key === 'tabSize') {
+      next.tabSize = parseBoundedInt(value, 1, 8, 'editor.tabSize');
+    } else if (key === 'wordWrap') {
+      if (typeof value !== 'boolean') {
+        throw new UserPreferencesError('editor.wordWrap must be a boolean');
+      }
+      next.wordWrap = value;
+    } else {
+      next.keybindings = parseEnum(value, USER_EDITOR_KEYBINDINGS, 'editor.keybindings');
+    }
+  }
+  return Object.keys(next).length ? next : undefined;
+}
+
+/**
+ * Reads stored JSON leniently: each unknown or malformed entry (down to single `editor` fields)
+ * is dropped on its own, keeping the valid ones.
+ */
+export function normalizeStoredPreferences(stored: unknown): UserPreferences {
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+    return {};
+  }
+  const entries: Record<string, unknown>[] = [];
+  for (const [key, value] of Object.entries(stored)) {
+    if (key === 'editor' && value && typeof value === 'object' && !Array.isArray(value)) {
+      entries.push(...Object.entries(value).map(([field, v]) => ({ editor: { [field]: v } })));
+    } else {
+      entries.push({ [key]: value });
+    }
+  }
+  return entries.reduce<UserPreferences>((preferences, entry) => {
+    try {
+      return applyUserPreferencesPatch(preferences, entry);
+    } catch (err) {
+      if (err instanceof UserPreferencesError) {
+        return preferences;
+      }
+      throw err;
+    }
+  }, {});
+}
+
+/**
+ * Merges a JSON merge-patch style update into `current`: provided keys replace, `null`
+ * removes, nested `editor` merges field by field. Unknown keys and invalid values throw.
+ */
+export function applyUserPreferencesPatch(current: UserPreferences, raw: unknown): UserPreferences {
+  const patch = requireObject(raw, 'preferences');
+  rejectUnknownKeys(patch, ['theme', 'editor', 'ollamaBaseUrl', 'searxngBaseUrl'], 'preferences');
+  const next: UserPreferences = { ...current };
+  for (const [key, value] of Object.entries(patch)) {
+    if (key === 'editor') {
+      const editor = mergeEditor(current.editor, value);
+      if (editor) {
+        next.editor = editor;
+      } else {
+        delete next.editor;
+      }
+    } else if (value === null) {
+      delete next[key as keyof UserPreferences];
+    } else if (key === 'theme') {
+      next.theme = parseEnum(value, USER_THEMES, 'theme');
+    } else if (key === 'ollamaBaseUrl' || key === 'searxngBaseUrl') {
+      next[key] = parseHttpUrl(value, key);
+    }
+  }
+  return next;
+}
+
+/** `displayNameOverride`: trimmed string, or null to fall back to the IdP name. */
+export function parseDisplayNameOverride(raw: unknown): string | null {
+  if (raw === null) {
+    return null;
+  }
+  if (typeof raw !== 'string') {
+    throw new UserPreferencesError('displayNameOverride must be a string or null');
+  }
+  const trimmed = raw.trim();
+  if (trimmed.length > DISPLAY_NAME_OVERRIDE_MAX_LENGTH) {
+    throw new UserPreferencesError(
+      `displayNameOverride must be at most ${DISPLAY_NAME_OVERRIDE_MAX_LENGTH} characters`
+    );
+  }
+  return trimmed || null;
+}
@@ -0,0 +1,199 @@
+// Author: Preston Lee
+
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { Prisma, WorkspaceRole, type User } from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import type { ServerEnv } from '../config/env.js';
+import { requireCsrf } from '../auth/csrf.js';
+import { publicUser, requireAuth, requireSsoConfigured } from '../auth/session.js';
+import { checkIfMatch, ifMatchWhere, sendPreconditionFailed, setEntityTag } from '../http/etag.js';
+import { resolveEffectiveWorkspaceRole, roleAtLeast } from '../workspace/access.js';
+import {
+  applyUserPreferencesPatch,
+  normalizeStoredPreferences,
+  parseDisplayNameOverride,
+  parseHttpUrl,
+  UserPreferencesError,
+} from './preferences.js';
+import { buildUserSearchWhere, parseUserSearchQuery } from './search.js';
+import { registerPersonalAccessTokenRoutes } from './tokens.js';
+
+function asyncHandler(
+  fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+}
+
+/**
+ * The caller's own profile. `defaultWorkspaceId` is reported as null once the user can no
+ * longer view that workspace (access revoked or workspace trashed).
+ */
+async function serializeMe(user: User) {
+  const defaultWorkspaceRole = user.defaultWorkspaceId
+    ? await resolveEffectiveWorkspaceRole(user, user.defaultWorkspaceId)
+    : null;
+  return {
+    ...publicUser(user),
+    ssoDisplayName: user.displayName,
+    displayNameOverride: user.displayNameOverride,
+    defaultWorkspaceId: roleAtLeast(defaultWorkspaceRole, WorkspaceRole.VIEWER)
+      ? user.defaultWorkspaceId
+      : null,
+    preferences: normalizeStoredPreferences(user.preferences),
+    isSiteAdmin: user.isSiteAdmin,
+    createdAt: user.createdAt,
+    lastLoginAt: user.lastLoginAt,
+  };
+}
+
+export function createMeRouter(env: ServerEnv): Router {
+  const router = Router();
+  router.use(requireSsoConfigured(env));
+  router.use(requireAuth(env));
+  router.use(requireCsrf(env));
+
+  router.get(
+    '/',
+    asyncHandler(async (req, res) => {
+      setEntityTag(res, req.user!);
+      res.json(await serializeMe(req.user!));
+    })
+  );
+
+  router.patch(
+    '/',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      if (!checkIfMatch(req, res, user)) {
+        return;
+      }
+      const data: Prisma.UserUncheckedUpdateManyInput = {};
+      try {
+        if (req.body?.displayNameOverride !== undefined) {
+          data.displayNameOverride = parseDisplayNameOverride(req.body.displayNameOverride);
+        }
+        if (req.body?.avatarUrl !== undefined) {
+          data.avatarUrl =
+            req.body.avatarUrl === null ? null : parseHttpUrl(req.body.avatarUrl, 'avatarUrl');
+        }
+        if (req.body?.preferences !== undefined) {
+          data.preferences = applyUserPreferencesPatch(
+            normalizeStoredPreferences(user.preferences),
+            req.body.preferences
+          ) as Prisma.InputJsonValue;
+        }
+      } catch (err) {
+        if (err instanceof UserPreferencesError) {
+          res.status(400).json({ error: err.message });
+          return;
+        }
+        throw err;
+      }
+      if (req.body?.defaultWorkspaceId !== undefined) {
+        const workspaceId = req.body.defaultWorkspaceId;
+        if (workspaceId === null) {
+          data.defaultWorkspaceId = null;
+        } else {
+          const role =
+            typeof workspaceId === 'string'
+              ? await resolveEffectiveWorkspaceRole(user, workspaceId)
+              : null;
+          if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+            res.status(400).json({ error: 'defaultWorkspaceId must be a workspace you can view' });
+            return;
+          }
+          data.defaultWorkspaceId = workspaceId;
+        }
+      }
+      const { count } = await getPrisma().user.updateMany({
+        where: { id: user.id, ...ifMatchWhere(req, user) },
+        data,
+      });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
+      const updated = await getPrisma().user.findUniqueOrThrow({ where: { id: user.id } });
+      setEntityTag(res, updated);
+      res.json(await serializeMe(updated));
+    })
+  );
+
+  router.get(
+    '/preferences',
+    asyncHandler(async (req, res) => {
+      setEntityTag(res, req.user!);
+      res.json(normalizeStoredPreferences(req.user!.preferences));
+    })
+  );
+
+  router.patch(
+    '/preferences',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      if (!checkIfMatch(req, res, user)) {
+        return;
+      }
+      let preferences;
+      try {
+        preferences = applyUserPreferencesPatch(normalizeStoredPreferences(user.preferences), req.body);
+      } catch (err) {
+        if (err instanceof UserPreferencesError) {
+          res.status(400).json({ error: err.message });
+          return;
+        }
+        throw err;
+      }
+      const { count } = await getPrisma().user.updateMany({
+        where: { id: user.id, ...ifMatchWhere(req, user) },
+        data: { preferences: preferences as Prisma.InputJsonValue },
+      });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
+      const updated = await getPrisma().user.findUniqueOrThrow({ where: { id: user.id } });
+      setEntityTag(res, updated);
+      res.json(preferences);
+    })
+  );
+
+  registerPersonalAccessTokenRoutes(router);
+
+  return router;
+}
+
+export function createUserRouter(env: ServerEnv): Router {
+  const router = Router();
+  router.use(requireSsoConfigured(env));
+  router.use(requireAuth(env));
+  router.use(requireCsrf(env));
+
+  router.get(
+    '/',
+    asyncHandler(async (req, res) => {
+      const parsed = parseUserSearchQuery(req);
+      if (typeof parsed === 'string') {
+        res.status(400).json({ error: parsed });
+        return;
+      }
+      const { q, page, pageSize, skip } = parsed;
+      const where = buildUserSearchWhere(q, req.user!.id, env.userDirectoryGlobal);
+      const [users, total] = await Promise.all([
+        getPrisma().user.findMany({
+          where,
+          orderBy: [{ displayName: 'asc' }, { email: 'asc' }, { id: 'asc' }],
+          skip,
+          take: pageSize,
+        }),
+        getPrisma().user.count({ where }),
+      ]);
+      res.json({ items: users.map(publicUser), total, page, pageSize });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,83 @@
+// Author: Preston Lee
+
+import type { Prisma } from '@prisma/client';
+import type { Request } from 'express';
+
+export const USER_SEARCH_MIN_QUERY_LENGTH = 2;
+export const USER_SEARCH_MAX_QUERY_LENGTH = 100;
+export const USER_SEARCH_DEFAULT_PAGE_SIZE = 20;
+export const USER_SEARCH_MAX_PAGE_SIZE = 50;
+
+/**
+ * People only: excludes service account backing users, including those whose account was purged
+ * (`purgedAt`) and so lost its `serviceAccountId` link.
+ */
+export const HUMAN_USER_WHERE: Prisma.UserWhereInput = { serviceAccountId: null, purgedAt: null };
+
+export interface UserSearchQuery {
+  q: string;
+  page: number;
+  pageSize: number;
+  skip: number;
+}
+
+/** Returns the parsed query, or an error message for a 400 when `q` is missing or too short. */
+export function parseUserSearchQuery(req: Pick<Request, 'query'>): UserSearchQuery | string {
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  if (q.length < USER_SEARCH_MIN_QUERY_LENGTH) {
+    return `q must be at least ${USER_SEARCH_MIN_QUERY_LENGTH} characters`;
+  }
+  if (q.length > USER_SEARCH_MAX_QUERY_LENGTH) {
+    return `q must be at most ${USER_SEARCH_MAX_QUERY_LENGTH} characters`;
+  }
+
+  const rawPage = Number(req.query.page);
+  const page = Number.isFinite(rawPage) && rawPage >= 1 ? Math.floor(rawPage) : 1;
+  const rawPageSize = Number(req.query.pageSize ?? req.query.limit);
+  const pageSize = Math.min(
+    Number.isFinite(rawPageSize) && rawPageSize >= 1
+      ? Math.floor(rawPageSize)
+      : USER_SEARCH_DEFAULT_PAGE_SIZE,
+    USER_SEARCH_MAX_PAGE_SIZE
+  );
+  return { q, page, pageSize, skip: (page - 1) * pageSize };
+}
+
+/**
+ * Case-insensitive prefix match on email and on the start of any word in the display names.
+ * These compile to ILIKE, served by the pg_trgm GIN indexes on User.
+ */
+export function userNameMatches(q: string): Prisma.UserWhereInput[] {
+  return [
+    { email: { startsWith: q, mode: 'insensitive' } },
+    { displayName: { startsWith: q, mode: 'insensitive' } },
+    { displayName: { contains: ` ${q}`, mode: 'insensitive' } },
+    { displayNameOverride: { startsWith: q, mode: 'insensitive' } },
+    { displayNameOverride: { contains: ` ${q}`, mode: 'insensitive' } },
+  ];
+}
+
+/**
+ * Directory search (see `userNameMatches`) over active people: service account backing users and
+ * deprovisioned or disabled users are never listed. Without `global`, results are limited to
+ * users sharing a live team with `callerId`.
+ */
+export function buildUserSearchWhere(
+  q: string,
+  callerId: string,
+  global: boolean
+): Prisma.UserWhereInput {
+  return {
+    ...HUMAN_USER_WHERE,
+    deprovisionedAt: null,
+    disabledAt: null,
+    OR: userNameMatches(q),
+    ...(!global && {
+      teamMemberships: {
+        some: {
+          team: { deletedAt: null, memberships: { some: { userId: callerId } } },
+        },
+      },
+    }),
+  };
+}
@@ -0,0 +1,133 @@
+// Author: Preston Lee
+
+import type { Router, Request, Response, NextFunction } from 'express';
+import type { PersonalAccessToken } from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import {
+  generatePersonalAccessToken,
+  parsePersonalAccessTokenScopes,
+  parsePersonalAccessTokenTtlDays,
+  PERSONAL_ACCESS_TOKEN_MAX_PER_USER,
+  PERSONAL_ACCESS_TOKEN_MAX_TTL_DAYS,
+  PERSONAL_ACCESS_TOKEN_NAME_MAX_LENGTH,
+} from '../auth/personal-access-token.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function asyncHandler(
+  fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+}
+
+/** Never includes the hash; the token itself is only returned once, at creation. */
+function serializePersonalAccessToken(pat: PersonalAccessToken) {
+  return {
+    id: pat.id,
+    name: pat.name,
+    tokenPrefix: pat.tokenPrefix,
+    scopes: pat.scopes,
+    expiresAt: pat.expiresAt,
+    lastUsedAt: pat.lastUsedAt,
+    createdAt: pat.createdAt,
+  };
+}
+
+/**
+ * Tokens cannot mint or list tokens: managing them requires a browser session. Service
+ * accounts have their own secrets and never get personal access tokens.
+ */
+function rejectTokenAuth(req: Request, res: Response): boolean {
+  if (req.personalAccessTokenId || req.serviceAccountId) {
+    res
+      .status(403)
+      .json({ error: 'Personal access tokens can only be managed from a signed-in session' });
+    return true;
+  }
+  return false;
+}
+
+/** Personal access tokens under /api/me/tokens (mounted on the me router). */
+export function registerPersonalAccessTokenRoutes(router: Router): void {
+  router.get(
+    '/tokens',
+    asyncHandler(async (req, res) => {
+      if (rejectTokenAuth(req, res)) {
+        return;
+      }
+      const tokens = await getPrisma().personalAccessToken.findMany({
+        where: { userId: req.user!.id },
+        orderBy: { createdAt: 'desc' },
+      });
+      res.json(tokens.map(serializePersonalAccessToken));
+    })
+  );
+
+  router.post(
+    '/tokens',
+    asyncHandler(async (req, res) => {
+      if (rejectTokenAuth(req, res)) {
+        return;
+      }
+      const user = req.user!;
+      const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+      if (!name || name.length > PERSONAL_ACCESS_TOKEN_NAME_MAX_LENGTH) {
+        res.status(400).json({
+          error: `name is required (at most ${PERSONAL_ACCESS_TOKEN_NAME_MAX_LENGTH} characters)`,
+        });
+        return;
+      }
+      const scopes = parsePersonalAccessTokenScopes(req.body?.scopes);
+      if (!scopes) {
+        res.status(400).json({ error: 'scopes must be a non-empty list of READ and/or WRITE' });
+        return;
+      }
+      const ttlDays = parsePersonalAccessTokenTtlDays(req.body?.expiresInDays);
+      if (ttlDays === null) {
+        res.status(400).json({
+          error: `expiresInDays must be an integer between 1 and ${PERSONAL_ACCESS_TOKEN_MAX_TTL_DAYS}`,
+        });
+        return;
+      }
+      const prisma = getPrisma();
+      const count = await prisma.personalAccessToken.count({ where: { userId: user.id } });
+      if (count >= PERSONAL_ACCESS_TOKEN_MAX_PER_USER) {
+        res.status(409).json({
+          error: `At most ${PERSONAL_ACCESS_TOKEN_MAX_PER_USER} tokens per user; delete unused tokens first`,
+        });
+        return;
+      }
+      const { token, tokenHash, tokenPrefix } = generatePersonalAccessToken();
+      const pat = await prisma.personalAccessToken.create({
+        data: {
+          userId: user.id,
+          name,
+          tokenHash,
+          tokenPrefix,
+          scopes,
+          expiresAt: new Date(Date.now() + ttlDays * DAY_MS),
+        },
+      });
+      res.status(201).json({ ...serializePersonalAccessToken(pat), token });
+    })
+  );
+
+  router.delete(
+    '/tokens/:tokenId',
+    asyncHandler(async (req, res) => {
+      if (rejectTokenAuth(req, res)) {
+        return;
+      }
+      const { count } = await getPrisma().personalAccessToken.deleteMany({
+        where: { id: req.params.tokenId, userId: req.user!.id },
+      });
+      if (count === 0) {
+        res.status(404).json({ error: 'Token not found' });
+        return;
+      }
+      res.status(204).send();
+    })
+  );
+}
@@ -6,9 +6,15 @@ import {
   WorkspaceRole,
   WorkspaceVisibility,
   type User,
+  type WorkspaceAccessGrant,
 } from '@prisma/client';
+import type { Response } from 'express';
 import { getPrisma } from '../db/prisma.js';
 import type { WorkspaceActivityTargetType, WorkspaceActivityVerb } from './activity.js';
+import {
+  publishWorkspaceActivity,
+  WORKSPACE_ACTIVITY_ACTOR_SELECT,
+} from './activity-stream.js';
 
 const ROLE_RANK: Record<WorkspaceRole, number> = {
   VIEWER: 1,
@@ -33,31 +39,77 @@ export function roleAtLeast(actual: WorkspaceRole | null, required: WorkspaceRol
   return ROLE_RANK[actual] >= ROLE_RANK[required];
 }
 
+/** Teams the user belongs to, excluding teams in the trash. */
+export async function listActiveTeamIds(userId: string): Promise<string[]> {
+  const memberships = await getPrisma().teamMembership.findMany({
+    where: { userId, team: { deletedAt: null } },
+    select: { teamId: true },
+  });
+  return memberships.map((m) => m.teamId);
+}
+
+/**
+ * Teams whose grants apply to `user`. Service account backing users act only through their
+ * own SERVICE_ACCOUNT grants, never through team membership.
+ */
+async function listGrantTeamIds(user: User): Promise<string[]> {
+  return user.serviceAccountId ? [] : listActiveTeamIds(user.id);
+}
+
+/** Grant rows that apply to `user`: direct, through `teamIds`, or as a service account. */
+function principalGrantFilters(
+  user: User,
+  teamIds: string[]
+): Prisma.WorkspaceAccessGrantWhereInput[] {
+  return [
+    { principalType: WorkspacePrincipalType.USER, principalId: user.id },
+    ...(teamIds.length
+      ? [{ principalType: WorkspacePrincipalType.TEAM, principalId: { in: teamIds } }]
+      : []),
+    ...(user.serviceAccountId
+      ? [
+          {
+            principalType: WorkspacePrincipalType.SERVICE_ACCOUNT,
+            principalId: user.serviceAccountId,
+          },
+        ]
+      : []),
+  ];
+}
+
+export interface ResolveWorkspaceRoleOptions {
+  /** Resolve the role on a trashed workspace too (trash listing and restore only). */
+  includeDeleted?: boolean;
+}
+
+export function parseWorkspaceRole(raw: unknown): WorkspaceRole | null {
+  if (typeof raw !== 'string') {
+    return null;
+  }
+  const upper = raw.toUpperCase();
+  if (upper === 'OWNER' || upper === 'EDITOR' || upper === 'VIEWER') {
+    return upper as WorkspaceRole;
+  }
+  return null;
+}
+
 export async function resolveEffectiveWorkspaceRole(
   user: User,
-  workspaceId: string
+  workspaceId: string,
+  options: ResolveWorkspaceRoleOptions = {}
 ): Promise<WorkspaceRole | null> {
   const prisma = getPrisma();
   const workspace = await prisma.workspace.findUnique({ where: { id: workspaceId } });
-  if (!workspace) {
+  if (!workspace || (workspace.deletedAt && !options.includeDeleted)) {
     return null;
   }
 
-  const memberships = await prisma.teamMembership.findMany({
-    where: { userId: user.id },
-    select: { teamId: true },
-  });
-  const teamIds = memberships.map((m) => m.teamId);
+  const teamIds = await listGrantTeamIds(user);
 
   const grants = await prisma.workspaceAccessGrant.findMany({
     where: {
       workspaceId,
-      OR: [
-        { principalType: WorkspacePrincipalType.USER, principalId: user.id },
-        ...(teamIds.length
-          ? [{ principalType: WorkspacePrincipalType.TEAM, principalId: { in: teamIds } }]
-          : []),
-      ],
+      OR: principalGrantFilters(user, teamIds),
     },
   });
 
@@ -75,36 +127,119 @@ export async function resolveEffectiveWorkspaceRole(
 
 export async function listAccessibleWorkspaceIds(user: User): Promise<string[]> {
   const prisma = getPrisma();
-  const memberships = await prisma.teamMembership.findMany({
-    where: { userId: user.id },
-    select: { teamId: true },
-  });
-  const teamIds = memberships.map((m) => m.teamId);
+  const teamIds = await listGrantTeamIds(user);
 
   const grants = await prisma.workspaceAccessGrant.findMany({
     where: {
-      OR: [
-        { principalType: WorkspacePrincipalType.USER, principalId: user.id },
-        ...(teamIds.length
-          ? [{ principalType: WorkspacePrincipalType.TEAM, principalId: { in: teamIds } }]
-          : []),
-      ],
+      workspace: { deletedAt: null },
+      OR: principalGrantFilters(user, teamIds),
     },
     select: { workspaceId: true },
   });
 
   const publicWorkspaces = await prisma.workspace.findMany({
-    where: { visibility: WorkspaceVisibility.PUBLIC },
+    where: { visibility: WorkspaceVisibility.PUBLIC, deletedAt: null },
     select: { id: true },
   });
 
   return [...new Set([...grants.map((g) => g.workspaceId), ...publicWorkspaces.map((w) => w.id)])];
 }
 
-export async function countOwners(workspaceId: string): Promise<number> {
-  return getPrisma().workspaceAccessGrant.count({
-    where: { workspaceId, role: WorkspaceRole.OWNER },
+/** Trashed workspaces on which the user holds OWNER directly or through a team. */
+export async function listOwnedTrashedWorkspaceIds(user: User): Promise<string[]> {
+  const teamIds = await listGrantTeamIds(user);
+  const grants = await getPrisma().workspaceAccessGrant.findMany({
+    where: {
+      role: WorkspaceRole.OWNER,
+      workspace: { deletedAt: { not: null } },
+      OR: principalGrantFilters(user, teamIds),
+    },
+    select: { workspaceId: true },
+  });
+  return [...new Set(grants.map((g) => g.workspaceId))];
+}
+
+/**
+ * Archived workspaces are read-only. Answers 409 and returns true when the workspace is
+ * archived so mutating routes can bail out right after their role check.
+ */
+export async function rejectIfArchived(res: Response, workspaceId: string): Promise<boolean> {
+  const workspace = await getPrisma().workspace.findUnique({
+    where: { id: workspaceId },
+    select: { archivedAt: true },
+  });
+  if (!workspace?.archivedAt) {
+    return false;
+  }
+  res.status(409).json({
+    error: 'Workspace is archived and read-only. Unarchive it to make changes.',
+    archivedAt: workspace.archivedAt,
+  });
+  return true;
+}
+
+/** Set key identifying a grant's principal, e.g. `TEAM:<id>`. */
+export function principalKey(
+  grant: Pick<WorkspaceAccessGrant, 'principalType' | 'principalId'>
+): string {
+  return `${grant.principalType}:${grant.principalId}`;
+}
+
+/**
+ * OWNER grants that still confer ownership: user grants always do, team and service account
+ * grants only while their principal is in `livePrincipals` (see `principalKey`).
+ */
+export function countLiveOwnerGrants(
+  ownerGrants: readonly Pick<WorkspaceAccessGrant, 'principalType' | 'principalId'>[],
+  livePrincipals: ReadonlySet<string>
+): number {
+  return ownerGrants.filter(
+    (grant) =>
+      grant.principalType === WorkspacePrincipalType.USER ||
+      livePrincipals.has(principalKey(grant))
+  ).length;
+}
+
+/**
+ * OWNER grants that still confer ownership, other than `exceptGrantId` (the grant about to be
+ * removed or demoted). Grants held by trashed teams, deleted service accounts and service
+ * accounts of trashed teams do not count.
+ */
+export async function countOwners(workspaceId: string, exceptGrantId?: string): Promise<number> {
+  const prisma = getPrisma();
+  const grants = await prisma.workspaceAccessGrant.findMany({
+    where: {
+      workspaceId,
+      role: WorkspaceRole.OWNER,
+      ...(exceptGrantId && { id: { not: exceptGrantId } }),
+    },
+    select: { principalType: true, principalId: true },
   });
+  const idsOf = (type: WorkspacePrincipalType) =>
+    grants.filter((g) => g.principalType === type).map((g) => g.principalId);
+  const teamIds = idsOf(WorkspacePrincipalType.TEAM);
+  const accountIds = idsOf(WorkspacePrincipalType.SERVICE_ACCOUNT);
+  const [teams, accounts] = await Promise.all([
+    teamIds.length
+      ? prisma.team.findMany({
+          where: { id: { in: teamIds }, deletedAt: null },
+          select: { id: true },
+        })
+      : [],
+    accountIds.length
+      ? prisma.serviceAccount.findMany({
+          where: { id: { in: accountIds }, deletedAt: null, team: { deletedAt: null } },
+          select: { id: true },
+        })
+      : [],
+  ]);
+  const keysOf = (principalType: WorkspacePrincipalType, rows: { id: string }[]) =>
+    rows.map((row) => principalKey({ principalType, principalId: row.id }));
+  const live = new Set([
+    ...keysOf(WorkspacePrincipalType.TEAM, teams),
+    ...keysOf(WorkspacePrincipalType.SERVICE_ACCOUNT, accounts),
+  ]);
+  return countLiveOwnerGrants(grants, live);
 }
 
 export function slugify(input: string): string {
@@ -148,7 +283,7 @@ export async function recordActivity(
   targetId?: string,
   metadata?: Record<string, unknown>
 ): Promise<void> {
-  await getPrisma().workspaceActivity.create({
+  const activity = await getPrisma().workspaceActivity.create({
     data: {
       workspaceId,
       actorUserId,
@@ -159,5 +294,12 @@ export async function recordActivity(
         ? (metadata as Prisma.InputJsonValue)
         : undefined,
     },
+    include: { actor: { select: WORKSPACE_ACTIVITY_ACTOR_SELECT } },
   });
+  // Live subscribers must never break the mutation that produced the activity.
+  try {
+    publishWorkspaceActivity(activity);
+  } catch (err) {
+    console.error('[activity] Failed to publish activity:', err instanceof Error ? err.message : err);
+  }
 }
@@ -0,0 +1,45 @@
+// Author: Preston Lee
+
+import { EventEmitter } from 'node:events';
+import type { Prisma } from '@prisma/client';
+
+/**
+ * `serviceAccount` is non-null when the actor is a service account's backing user; `purgedAt` is
+ * set instead once that account was purged with its team.
+ */
+export const WORKSPACE_ACTIVITY_ACTOR_SELECT = {
+  id: true,
+  email: true,
+  displayName: true,
+  serviceAccount: { select: { id: true, name: true, teamId: true } },
+  purgedAt: true,
+} as const;
+
+export type PublishedWorkspaceActivity = Prisma.WorkspaceActivityGetPayload<{
+  include: { actor: { select: typeof WORKSPACE_ACTIVITY_ACTOR_SELECT } };
+}>;
+
+/** Maximum rows replayed for a `Last-Event-ID` resume before the client should refetch the feed. */
+export const WORKSPACE_ACTIVITY_STREAM_REPLAY_LIMIT = 500;
+
+/**
+ * In-process fan-out of newly recorded activity. Subscribers only see events recorded by this
+ * server instance; multi-instance deployments rely on Last-Event-ID replay after reconnects.
+ */
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishWorkspaceActivity(activity: PublishedWorkspaceActivity): void {
+  emitter.emit(activity.workspaceId, activity);
+}
+
+/** Returns an unsubscribe function. */
+export function subscribeToWorkspaceActivity(
+  workspaceId: string,
+  listener: (activity: PublishedWorkspaceActivity) => void
+): () => void {
+  emitter.on(workspaceId, listener);
+  return () => {
+    emitter.off(workspaceId, listener);
+  };
+}
@@ -5,6 +5,12 @@ import type { Request } from 'express';
 export const WorkspaceActivityVerb = {
   WorkspaceCreated: 'workspace.created',
   WorkspaceUpdated: 'workspace.updated',
+  WorkspaceImported: 'workspace.imported',
+  WorkspaceForked: 'workspace.forked',
+  WorkspaceDeleted: 'workspace.deleted',
+  WorkspaceRestored: 'workspace.restored',
+  WorkspaceArchived: 'workspace.archived',
+  WorkspaceUnarchived: 'workspace.unarchived',
   GrantUpserted: 'grant.upserted',
   GrantUpdated: 'grant.updated',
   GrantRemoved: 'grant.removed',
@@ -13,6 +19,14 @@ export const WorkspaceActivityVerb = {
   EnvironmentRemoved: 'environment.removed',
   ResourceAdded: 'resource.added',
   ResourceRemoved: 'resource.removed',
+  LibraryCreated: 'library.created',
+  LibraryUpdated: 'library.updated',
+  LibraryRemoved: 'library.removed',
+  LibraryRestored: 'library.restored',
+  InvitationCreated: 'invitation.created',
+  InvitationRevoked: 'invitation.revoked',
+  InvitationAccepted: 'invitation.accepted',
+  InvitationDeclined: 'invitation.declined',
 } as const;
 
 export type WorkspaceActivityVerb =
@@ -23,6 +37,8 @@ export const WorkspaceActivityTargetType = {
   Grant: 'grant',
   Environment: 'environment',
   Resource: 'resource',
+  Library: 'library',
+  Invitation: 'invitation',
 } as const;
 
 export type WorkspaceActivityTargetType =
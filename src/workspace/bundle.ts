@@ -0,0 +1,326 @@
+// Author: Preston Lee
+
+import {
+  Prisma,
+  WorkspacePrincipalType,
+  WorkspaceRole,
+  WorkspaceVisibility,
+  type User,
+  type Workspace,
+} from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import { uniqueSlug } from './access.js';
+import { stripSecretsFromConfig } from './environment-config.js';
+
+export const WORKSPACE_BUNDLE_FORMAT = 'cql-studio-workspace';
+export const WORKSPACE_BUNDLE_VERSION = 1;
+
+export interface WorkspaceBundleRevision {
+  revisionNumber: number;
+  name: string;
+  version: string | null;
+  cql: string;
+  message: string | null;
+  createdAt: string;
+}
+
+export interface WorkspaceBundleLibrary {
+  name: string;
+  version: string | null;
+  /** Oldest first. */
+  revisions: WorkspaceBundleRevision[];
+}
+
+export interface WorkspaceBundle {
+  format: typeof WORKSPACE_BUNDLE_FORMAT;
+  version: typeof WORKSPACE_BUNDLE_VERSION;
+  exportedAt: string;
+  workspace: {
+    name: string;
+    slug: string;
+    description: string | null;
+    visibility: WorkspaceVisibility;
+  };
+  environments: { name: string; config: Record<string, unknown> }[];
+  resources: {
+    resourceType: string;
+    resourceId: string;
+    canonicalUrl: string | null;
+    displayName: string | null;
+  }[];
+  libraries: WorkspaceBundleLibrary[];
+}
+
+/** Thrown when an uploaded bundle is malformed; routes answer 400 with the message. */
+export class WorkspaceBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceBundleError';
+    Object.setPrototypeOf(this, WorkspaceBundleError.prototype);
+  }
+}
+
+export async function buildWorkspaceBundle(workspaceId: string): Promise<WorkspaceBundle | null> {
+  const workspace = await getPrisma().workspace.findUnique({
+    where: { id: workspaceId },
+    include: {
+      sharedEnvironments: { orderBy: { name: 'asc' } },
+      resourceReferences: {
+        orderBy: [{ resourceType: 'asc' }, { resourceId: 'asc' }],
+      },
+      libraries: {
+        orderBy: { name: 'asc' },
+        include: { revisions: { orderBy: { revisionNumber: 'asc' } } },
+      },
+    },
+  });
+  if (!workspace) {
+    return null;
+  }
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: WORKSPACE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    workspace: {
+      name: workspace.name,
+      slug: workspace.slug,
+      description: workspace.description,
+      visibility: workspace.visibility,
+    },
+    environments: workspace.sharedEnvironments.map((e) => ({
+      name: e.name,
+      config: stripSecretsFromConfig(e.config),
+    })),
+    resources: workspace.resourceReferences.map((r) => ({
+      resourceType: r.resourceType,
+      resourceId: r.resourceId,
+      canonicalUrl: r.canonicalUrl,
+      displayName: r.displayName,
+    })),
+    libraries: workspace.libraries.map((l) => ({
+      name: l.name,
+      version: l.version,
+      revisions: l.revisions.map((r) => ({
+        revisionNumber: r.revisionNumber,
+        name: r.name,
+        version: r.version,
+        cql: r.cql,
+        message: r.message,
+        createdAt: r.createdAt.toISOString(),
+      })),
+    })),
+  };
+}
+
+function requireString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new WorkspaceBundleError(`${path} must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function optionalString(value: unknown, path: string): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new WorkspaceBundleError(`${path} must be a string or null`);
+  }
+  return value.trim() || null;
+}
+
+function requireArray(value: unknown, path: string): unknown[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new WorkspaceBundleError(`${path} must be an array`);
+  }
+  return value;
+}
+
+function requireObject(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new WorkspaceBundleError(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/** Validates an uploaded bundle and normalizes optional fields. */
+export function parseWorkspaceBundle(raw: unknown): WorkspaceBundle {
+  const root = requireObject(raw, 'bundle');
+  if (root.format !== WORKSPACE_BUNDLE_FORMAT) {
+    throw new WorkspaceBundleError(`bundle.format must be "${WORKSPACE_BUNDLE_FORMAT}"`);
+  }
+  if (root.version !== WORKSPACE_BUNDLE_VERSION) {
+    throw new WorkspaceBundleError(
+      `Unsupported bundle version ${String(root.version)} (expected ${WORKSPACE_BUNDLE_VERSION})`
+    );
+  }
+  const workspace = requireObject(root.workspace, 'workspace');
+  const visibilityRaw = typeof workspace.visibility === 'string' ? workspace.visibility.toUpperCase() : '';
+
+  const environmentNames = new Set<string>();
+  const environments = requireArray(root.environments, 'environments').map((item, i) => {
+    const env = requireObject(item, `environments[${i}]`);
+    const name = requireString(env.name, `environments[${i}].name`);
+    if (environmentNames.has(name)) {
+      throw new WorkspaceBundleError(`Duplicate environment name "${name}"`);
+    }
+    environmentNames.add(name);
+    return { name, config: stripSecretsFromConfig(env.config) };
+  });
+
+  const resourceKeys = new Set<string>();
+  const resources = requireArray(root.resources, 'resources').map((item, i) => {
+    const ref = requireObject(item, `resources[${i}]`);
+    const resourceType = requireString(ref.resourceType, `resources[${i}].resourceType`);
+    const resourceId = requireString(ref.resourceId, `resources[${i}].resourceId`);
+    const key = `${resourceType}/${resourceId}`;
+    if (resourceKeys.has(key)) {
+      throw new WorkspaceBundleError(`Duplicate resource reference ${key}`);
+    }
+    resourceKeys.add(key);
+    return {
+      resourceType,
+      resourceId,
+      canonicalUrl: optionalString(ref.canonicalUrl, `resources[${i}].canonicalUrl`),
+      displayName: optionalString(ref.displayName, `resources[${i}].displayName`),
+    };
+  });
+
+  const libraryNames = new Set<string>();
+  const libraries = requireArray(root.libraries, 'libraries').map((item, i) => {
+    const lib = requireObject(item, `libraries[${i}]`);
+    const name = requireString(lib.name, `libraries[${i}].name`);
+    if (libraryNames.has(name)) {
+      throw new WorkspaceBundleError(`Duplicate library name "${name}"`);
+    }
+    libraryNames.add(name);
+    const revisions = requireArray(lib.revisions, `libraries[${i}].revisions`).map((r, j) => {
+      const path = `libraries[${i}].revisions[${j}]`;
+      const rev = requireObject(r, path);
+      if (typeof rev.cql !== 'string') {
+        throw new WorkspaceBundleError(`${path}.cql must be a string`);
+      }
+      const createdAt = typeof rev.createdAt === 'string' ? new Date(rev.createdAt) : new Date();
+      return {
+        revisionNumber: j + 1,
+        name: optionalString(rev.name, `${path}.name`) ?? name,
+        version: optionalString(rev.version, `${path}.version`),
+        cql: rev.cql,
+        message: optionalString(rev.message, `${path}.message`),
+        createdAt: Number.isNaN(createdAt.getTime()) ? new Date().toISOString() : createdAt.toISOString(),
+      };
+    });
+    if (revisions.length === 0) {
+      throw new WorkspaceBundleError(`libraries[${i}] must have at least one revision`);
+    }
+    return {
+      name,
+      version: optionalString(lib.version, `libraries[${i}].version`),
+      revisions,
+    };
+  });
+
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: WORKSPACE_BUNDLE_VERSION,
+    exportedAt: typeof root.exportedAt === 'string' ? root.exportedAt : new Date().toISOString(),
+    workspace: {
+      name: requireString(workspace.name, 'workspace.name'),
+      slug: typeof workspace.slug === 'string' ? workspace.slug : '',
+      description: optionalString(workspace.description, 'workspace.description'),
+      visibility:
+        visibilityRaw === WorkspaceVisibility.PUBLIC
+          ? WorkspaceVisibility.PUBLIC
+          : WorkspaceVisibility.PRIVATE,
+    },
+    environments,
+    resources,
+    libraries,
+  };
+}
+
+export interface ImportWorkspaceBundleOptions {
+  name?: string;
+  visibility?: WorkspaceVisibility;
+  forkedFromWorkspaceId?: string;
+}
+
+/**
+ * Recreates a bundle as a new workspace owned by `owner`. The slug is derived from the
+ * (possibly overridden) name via uniqueSlug so imports never collide with existing workspaces.
+ * Imported revisions keep their timestamps and messages but are authored by the importer.
+ */
+export async function importWorkspaceBundle(
+  owner: User,
+  bundle: WorkspaceBundle,
+  options: ImportWorkspaceBundleOptions = {}
+): Promise<Workspace> {
+  const name = options.name?.trim() || bundle.workspace.name;
+  const slug = await uniqueSlug('workspace', name);
+  return getPrisma().$transaction(async (tx) => {
+    const workspace = await tx.workspace.create({
+      data: {
+        name,
+        slug,
+        visibility: options.visibility ?? bundle.workspace.visibility,
+        description: bundle.workspace.description,
+        createdByUserId: owner.id,
+        forkedFromWorkspaceId: options.forkedFromWorkspaceId,
+        grants: {
+          create: {
+            principalType: WorkspacePrincipalType.USER,
+            principalId: owner.id,
+            role: WorkspaceRole.OWNER,
+            grantedByUserId: owner.id,
+          },
+        },
+      },
+    });
+    if (bundle.environments.length) {
+      await tx.sharedEnvironment.createMany({
+        data: bundle.environments.map((e) => ({
+          workspaceId: workspace.id,
+          name: e.name,
+          config: e.config as Prisma.InputJsonValue,
+        })),
+      });
+    }
+    if (bundle.resources.length) {
+      await tx.workspaceResourceReference.createMany({
+        data: bundle.resources.map((r) => ({
+          workspaceId: workspace.id,
+          resourceType: r.resourceType,
+          resourceId: r.resourceId,
+          canonicalUrl: r.canonicalUrl,
+          displayName: r.displayName,
+          createdByUserId: owner.id,
+        })),
+      });
+    }
+    for (const lib of bundle.libraries) {
+      await tx.workspaceLibrary.create({
+        data: {
+          workspaceId: workspace.id,
+          name: lib.name,
+          version: lib.version,
+          createdByUserId: owner.id,
+          revisions: {
+            create: lib.revisions.map((r) => ({
+              revisionNumber: r.revisionNumber,
+              name: r.name,
+              version: r.version,
+              cql: r.cql,
+              message: r.message,
+              authorUserId: owner.id,
+              createdAt: new Date(r.createdAt),
+            })),
+          },
+        },
+      });
+    }
+    return workspace;
+  });
+}
@@ -0,0 +1,36 @@
+// Author: Preston Lee
+
+/**
+ * Removes credentials from a shared environment config (EndpointConfiguration shape) before it is
+ * stored or exported. Only addresses and non-secret settings are kept server-side.
+ */
+export function stripSecretsFromConfig(config: unknown): Record<string, unknown> {
+  if (!config || typeof config !== 'object') {
+    return {};
+  }
+  const clone = JSON.parse(JSON.stringify(config)) as Record<string, unknown>;
+  const scrub = (endpoint: unknown) => {
+    if (!endpoint || typeof endpoint !== 'object') {
+      return endpoint;
+    }
+    const e = endpoint as Record<string, unknown>;
+    delete e.basicAuthPassword;
+    delete e.basicAuthUsername;
+    return e;
+  };
+  if (clone.evaluationServer) {
+    clone.evaluationServer = scrub(clone.evaluationServer);
+  }
+  if (clone.dataEndpoint) {
+    clone.dataEndpoint = scrub(clone.dataEndpoint);
+  }
+  if (clone.terminologyEndpoint) {
+    clone.terminologyEndpoint = scrub(clone.terminologyEndpoint);
+  }
+  if (clone.contentEndpoint) {
+    clone.contentEndpoint = scrub(clone.contentEndpoint);
+  }
+  delete clone.basicAuthPassword;
+  delete clone.basicAuthUsername;
+  return clone;
+}
@@ -0,0 +1,200 @@
+// Author: Preston Lee
+
+export const FHIR_LIBRARY_TYPE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/library-type';
+export const FHIR_CQL_CONTENT_TYPE = 'text/cql';
+
+export type FhirLibraryStatus = 'draft' | 'active' | 'retired';
+
+export interface FhirBundleLibraryInput {
+  id: string;
+  name: string;
+  version: string | null;
+  cql: string;
+  updatedAt: Date;
+}
+
+export interface FhirBundleResourceInput {
+  resourceType: string;
+  resourceId: string;
+  canonicalUrl: string | null;
+  displayName: string | null;
+}
+
+export interface FhirBundleOptions {
+  /** Base for `url` when no Library resource reference supplies one, e.g. `https://example.org/fhir`. */
+  canonicalBase?: string;
+  status?: FhirLibraryStatus;
+}
+
+export interface FhirRelatedArtifact {
+  type: 'depends-on';
+  display?: string;
+  resource: string;
+}
+
+export interface FhirLibrary {
+  resourceType: 'Library';
+  id: string;
+  url?: string;
+  version?: string;
+  name: string;
+  title: string;
+  status: FhirLibraryStatus;
+  date: string;
+  type: { coding: { system: string; code: string }[] };
+  relatedArtifact?: FhirRelatedArtifact[];
+  content: { contentType: string; data: string }[];
+}
+
+export interface FhirTransactionBundle {
+  resourceType: 'Bundle';
+  type: 'transaction';
+  timestamp: string;
+  entry: {
+    fullUrl: string;
+    resource: FhirLibrary;
+    request: { method: 'PUT'; url: string };
+  }[];
+}
+
+/** FHIR ids are limited to [A-Za-z0-9-.]{1,64}. */
+export function toFhirId(name: string): string {
+  const id = name.replace(/[^A-Za-z0-9\-.]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 64);
+  return id || 'library';
+}
+
+/**
+ * `toFhirId` for each name, made unique: names that sanitize to the same id ("A B", "A-B")
+ * get `-2`, `-3`, … suffixes in input order so the Bundle never PUTs one Library twice.
+ */
+export function assignFhirIds(names: readonly string[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const name of names) {
+    const base = toFhirId(name);
+    let id = base;
+    for (let n = 2; taken.has(id); n++) {
+      const suffix = `-${n}`;
+      id = base.slice(0, 64 - suffix.length) + suffix;
+    }
+    taken.add(id);
+    ids.set(name, id);
+  }
+  return ids;
+}
+
+/** `valueset "Local Name": 'http://…'` declarations, keyed by URL. */
+export function parseCqlValueSetDeclarations(cql: string): Map<string, string> {
+  const declarations = new Map<string, string>();
+  const pattern = /^\s*(?:public\s+|private\s+)?valueset\s+"([^"]+)"\s*:\s*'([^']+)'/gm;
+  for (const match of cql.matchAll(pattern)) {
+    declarations.set(match[2], match[1]);
+  }
+  return declarations;
+}
+
+/** `include Name version '1.0.0'` statements. */
+export function parseCqlIncludes(cql: string): { name: string; version: string | null }[] {
+  const includes: { name: string; version: string | null }[] = [];
+  const pattern =
+    /^\s*include\s+(?:"([^"]+)"|([A-Za-z_][A-Za-z0-9_.]*))(?:\s+version\s+'([^']*)')?/gm;
+  for (const match of cql.matchAll(pattern)) {
+    includes.push({ name: match[1] ?? match[2], version: match[3] ?? null });
+  }
+  return includes;
+}
+
+function withVersion(url: string, version: string | null): string {
+  return version ? `${url}|${version}` : url;
+}
+
+/**
+ * Renders stored workspace libraries as a FHIR R4 transaction Bundle of Library resources.
+ * Canonical URLs come from matching `Library` resource references (by resourceId or displayName),
+ * falling back to `canonicalBase`. ValueSets declared in the CQL, or workspace ValueSet references
+ * whose canonical URL appears in it, and included workspace libraries become `depends-on` artifacts.
+ */
+export function buildFhirLibraryBundle(
+  libraries: readonly FhirBundleLibraryInput[],
+  resources: readonly FhirBundleResourceInput[],
+  options: FhirBundleOptions = {}
+): FhirTransactionBundle {
+  const base = options.canonicalBase?.replace(/\/+$/, '');
+  const libraryRefs = resources.filter((r) => r.resourceType === 'Library' && r.canonicalUrl);
+  const valueSetRefs = resources.filter((r) => r.resourceType === 'ValueSet');
+
+  const fhirIds = assignFhirIds(libraries.map((l) => l.name));
+
+  const canonicalFor = (name: string): string | undefined => {
+    const ref = libraryRefs.find((r) => r.resourceId === name || r.displayName === name);
+    if (ref?.canonicalUrl) {
+      return ref.canonicalUrl;
+    }
+    return base ? `${base}/Library/${fhirIds.get(name) ?? toFhirId(name)}` : undefined;
+  };
+  const byName = new Map(libraries.map((l) => [l.name, l]));
+
+  const entry = libraries.map((library) => {
+    const id = fhirIds.get(library.name)!;
+    const url = canonicalFor(library.name);
+    const related = new Map<string, FhirRelatedArtifact>();
+
+    for (const include of parseCqlIncludes(library.cql)) {
+      const target = byName.get(include.name);
+      const includeUrl = target ? canonicalFor(target.name) : undefined;
+      if (includeUrl) {
+        const resource = withVersion(includeUrl, include.version ?? target?.version ?? null);
+        related.set(resource, { type: 'depends-on', display: include.name, resource });
+      }
+    }
+    const declared = parseCqlValueSetDeclarations(library.cql);
+    for (const [valueSetUrl, localName] of declared) {
+      const ref = valueSetRefs.find((r) => r.canonicalUrl === valueSetUrl);
+      related.set(valueSetUrl, {
+        type: 'depends-on',
+        display: ref?.displayName ?? localName,
+        resource: valueSetUrl,
+      });
+    }
+    for (const ref of valueSetRefs) {
+      if (ref.canonicalUrl && !related.has(ref.canonicalUrl) && library.cql.includes(ref.canonicalUrl)) {
+        related.set(ref.canonicalUrl, {
+          type: 'depends-on',
+          ...(ref.displayName && { display: ref.displayName }),
+          resource: ref.canonicalUrl,
+        });
+      }
+    }
+
+    const resource: FhirLibrary = {
+      resourceType: 'Library',
+      id,
+      ...(url && { url }),
+      ...(library.version && { version: library.version }),
+      name: library.name.replace(/[^A-Za-z0-9_]/g, '_'),
+      title: library.name,
+      status: options.status ?? 'draft',
+      date: library.updatedAt.toISOString(),
+      type: { coding: [{ system: FHIR_LIBRARY_TYPE_SYSTEM, code: 'logic-library' }] },
+      ...(related.size > 0 && { relatedArtifact: [...related.values()] }),
+      content: [
+        {
+          contentType: FHIR_CQL_CONTENT_TYPE,
+          data: Buffer.from(library.cql, 'utf8').toString('base64'),
+        },
+      ],
+    };
+    return {
+      fullUrl: `urn:uuid:${library.id}`,
+      resource,
+      request: { method: 'PUT' as const, url: `Library/${id}` },
+    };
+  });
+
+  return {
+    resourceType: 'Bundle',
+    type: 'transaction',
+    timestamp: new Date().toISOString(),
+    entry,
+  };
+}
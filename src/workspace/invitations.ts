@@ -0,0 +1,349 @@
+// Author: Preston Lee
+
+import type { Router, Request, Response, NextFunction } from 'express';
+import {
+  InvitationStatus,
+  WorkspacePrincipalType,
+  WorkspaceRole,
+  type User,
+  type WorkspaceAccessGrant,
+  type WorkspaceInvitation,
+} from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import type { ServerEnv } from '../config/env.js';
+import { signInvitationToken } from '../auth/invitation-token.js';
+import {
+  maxRole,
+  parseWorkspaceRole,
+  recordActivity,
+  rejectIfArchived,
+  resolveEffectiveWorkspaceRole,
+  roleAtLeast,
+} from './access.js';
+import { WorkspaceActivityTargetType, WorkspaceActivityVerb } from './activity.js';
+
+export const INVITATION_DEFAULT_TTL_DAYS = 14;
+export const INVITATION_MAX_TTL_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USER_SELECT = { id: true, email: true, displayName: true } as const;
+
+/** Thrown when an invitation cannot be answered; routes reply with `status` and the message. */
+export class InvitationError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'InvitationError';
+    Object.setPrototypeOf(this, InvitationError.prototype);
+  }
+}
+
+function asyncHandler(
+  fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+}
+
+/** Trimmed, lower-cased address, or null when it does not look like `local@domain`. */
+export function normalizeInvitationEmail(raw: unknown): string | null {
+  if (typeof raw !== 'string') {
+    return null;
+  }
+  const email = raw.trim().toLowerCase();
+  if (email.length > 320 || !/^[^\s@]+@[^\s@]+$/.test(email)) {
+    return null;
+  }
+  return email;
+}
+
+/** Days until expiry from `expiresInDays`; undefined falls back to the default, invalid values to null. */
+export function parseInvitationTtlDays(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === '') {
+    return INVITATION_DEFAULT_TTL_DAYS;
+  }
+  const days = typeof raw === 'number' ? raw : Number(raw);
+  if (!Number.isInteger(days) || days < 1 || days > INVITATION_MAX_TTL_DAYS) {
+    return null;
+  }
+  return days;
+}
+
+/** Archived workspaces are read-only, so their invitations cannot be accepted until unarchived. */
+export function assertWorkspaceAcceptsInvitations(workspace: { archivedAt: Date | null }): void {
+  if (workspace.archivedAt) {
+    throw new InvitationError(
+      409,
+      'Workspace is archived; the invitation can be accepted once it is unarchived'
+    );
+  }
+}
+
+/** Only a verified address (`User.emailVerified`) matches; see the OIDC callback. */
+export function invitationMatchesUser(
+  invitation: { email: string },
+  user: Pick<User, 'email' | 'emailVerified'>
+): boolean {
+  return (
+    user.emailVerified && !!user.email && user.email.trim().toLowerCase() === invitation.email
+  );
+}
+
+/** Owner-facing view; pending invitations carry their shareable token. */
+export function serializeWorkspaceInvitation(invitation: WorkspaceInvitation, env: ServerEnv) {
+  return {
+    ...invitation,
+    ...(invitation.status === InvitationStatus.PENDING && {
+      token: signInvitationToken('workspace', invitation.id, env.sessionSecret),
+    }),
+  };
+}
+
+async function loadPendingWorkspaceInvitation(invitationId: string) {
+  const invitation = await getPrisma().workspaceInvitation.findUnique({
+    where: { id: invitationId },
+    include: {
+      workspace: {
+        select: { id: true, name: true, slug: true, deletedAt: true, archivedAt: true },
+      },
+    },
+  });
+  if (!invitation || invitation.workspace.deletedAt) {
+    throw new InvitationError(404, 'Invitation not found');
+  }
+  if (invitation.status !== InvitationStatus.PENDING) {
+    throw new InvitationError(409, `Invitation was already ${invitation.status.toLowerCase()}`);
+  }
+  if (invitation.expiresAt <= new Date()) {
+    throw new InvitationError(410, 'Invitation has expired');
+  }
+  return invitation;
+}
+
+/**
+ * Converts a pending invitation into a USER grant for `user`. An existing grant is never
+ * downgraded. The PENDING → ACCEPTED transition is conditional so concurrent accepts of
+ * the same invitation cannot both succeed.
+ */
+export async function acceptWorkspaceInvitation(
+  invitationId: string,
+  user: User
+): Promise<WorkspaceAccessGrant> {
+  const invitation = await loadPendingWorkspaceInvitation(invitationId);
+  assertWorkspaceAcceptsInvitations(invitation.workspace);
+  const grant = await getPrisma().$transaction(async (tx) => {
+    const claimed = await tx.workspaceInvitation.updateMany({
+      where: { id: invitation.id, status: InvitationStatus.PENDING },
+      data: { status: InvitationStatus.ACCEPTED, respondedAt: new Date(), respondedByUserId: user.id },
+    });
+    if (claimed.count === 0) {
+      throw new InvitationError(409, 'Invitation is no longer pending');
+    }
+    const key = {
+      workspaceId: invitation.workspaceId,
+      principalType: WorkspacePrincipalType.USER,
+      principalId: user.id,
+    };
+    const existing = await tx.workspaceAccessGrant.findUnique({
+      where: { workspaceId_principalType_principalId: key },
+    });
+    const role = maxRole(existing?.role ?? null, invitation.role) ?? invitation.role;
+    return tx.workspaceAccessGrant.upsert({
+      where: { workspaceId_principalType_principalId: key },
+      create: { ...key, role, grantedByUserId: invitation.invitedByUserId },
+      update: { role },
+    });
+  });
+  await recordActivity(
+    invitation.workspaceId,
+    user.id,
+    WorkspaceActivityVerb.InvitationAccepted,
+    WorkspaceActivityTargetType.Invitation,
+    invitation.id,
+    { email: invitation.email, role: grant.role, grantId: grant.id }
+  );
+  return grant;
+}
+
+export async function declineWorkspaceInvitation(invitationId: string, user: User): Promise<void> {
+  const invitation = await loadPendingWorkspaceInvitation(invitationId);
+  const claimed = await getPrisma().workspaceInvitation.updateMany({
+    where: { id: invitation.id, status: InvitationStatus.PENDING },
+    data: { status: InvitationStatus.DECLINED, respondedAt: new Date(), respondedByUserId: user.id },
+  });
+  if (claimed.count === 0) {
+    throw new InvitationError(409, 'Invitation is no longer pending');
+  }
+  await recordActivity(
+    invitation.workspaceId,
+    user.id,
+    WorkspaceActivityVerb.InvitationDeclined,
+    WorkspaceActivityTargetType.Invitation,
+    invitation.id,
+    { email: invitation.email }
+  );
+}
+
+/** Pending, unexpired invitations addressed to the user's verified email on live workspaces. */
+export async function listPendingWorkspaceInvitationsFor(user: User) {
+  if (!user.email || !user.emailVerified) {
+    return [];
+  }
+  return getPrisma().workspaceInvitation.findMany({
+    where: {
+      email: user.email.trim().toLowerCase(),
+      status: InvitationStatus.PENDING,
+      expiresAt: { gt: new Date() },
+      workspace: { deletedAt: null },
+    },
+    include: {
+      workspace: { select: { id: true, name: true, slug: true } },
+      invitedBy: { select: USER_SELECT },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Accepts every pending invitation addressed to the user's email. Called after the OIDC
+ * callback so invitees get access on first sign-in. Invitations to archived workspaces stay
+ * pending and convert on a later sign-in. Returns the number converted.
+ */
+export async function convertPendingWorkspaceInvitations(user: User): Promise<number> {
+  let converted = 0;
+  for (const invitation of await listPendingWorkspaceInvitationsFor(user)) {
+    try {
+      await acceptWorkspaceInvitation(invitation.id, user);
+      converted++;
+    } catch (err) {
+      if (!(err instanceof InvitationError)) {
+        throw err;
+      }
+    }
+  }
+  return converted;
+}
+
+/** Owner management under /api/workspaces/:id/invitations (mounted on the workspace router). */
+export function registerWorkspaceInvitationRoutes(router: Router, env: ServerEnv): void {
+  router.get(
+    '/:id/invitations',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.OWNER)) {
+        res.status(403).json({ error: 'Owner role required' });
+        return;
+      }
+      const statusRaw = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : '';
+      if (statusRaw && !(statusRaw in InvitationStatus)) {
+        res.status(400).json({ error: 'status must be PENDING, ACCEPTED, DECLINED or REVOKED' });
+        return;
+      }
+      const invitations = await getPrisma().workspaceInvitation.findMany({
+        where: {
+          workspaceId: req.params.id,
+          ...(statusRaw && { status: statusRaw as InvitationStatus }),
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      res.json(invitations.map((i) => serializeWorkspaceInvitation(i, env)));
+    })
+  );
+
+  router.post(
+    '/:id/invitations',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.OWNER)) {
+        res.status(403).json({ error: 'Owner role required' });
+        return;
+      }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
+      const email = normalizeInvitationEmail(req.body?.email);
+      const invitedRole = parseWorkspaceRole(req.body?.role);
+      if (!email || !invitedRole) {
+        res.status(400).json({ error: 'A valid email and role are required' });
+        return;
+      }
+      const ttlDays = parseInvitationTtlDays(req.body?.expiresInDays);
+      if (ttlDays === null) {
+        res.status(400).json({
+          error: `expiresInDays must be an integer between 1 and ${INVITATION_MAX_TTL_DAYS}`,
+        });
+        return;
+      }
+      const expiresAt = new Date(Date.now() + ttlDays * DAY_MS);
+      const prisma = getPrisma();
+      // Re-inviting the same address refreshes the pending invitation instead of stacking another.
+      const pending = await prisma.workspaceInvitation.findFirst({
+        where: { workspaceId: req.params.id, email, status: InvitationStatus.PENDING },
+      });
+      const invitation = pending
+        ? await prisma.workspaceInvitation.update({
+            where: { id: pending.id },
+            data: { role: invitedRole, expiresAt, invitedByUserId: req.user!.id },
+          })
+        : await prisma.workspaceInvitation.create({
+            data: {
+              workspaceId: req.params.id,
+              email,
+              role: invitedRole,
+              expiresAt,
+              invitedByUserId: req.user!.id,
+            },
+          });
+      await recordActivity(
+        req.params.id,
+        req.user!.id,
+        WorkspaceActivityVerb.InvitationCreated,
+        WorkspaceActivityTargetType.Invitation,
+        invitation.id,
+        { email, role: invitedRole, expiresAt: expiresAt.toISOString() }
+      );
+      res.status(pending ? 200 : 201).json(serializeWorkspaceInvitation(invitation, env));
+    })
+  );
+
+  router.delete(
+    '/:id/invitations/:invitationId',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.OWNER)) {
+        res.status(403).json({ error: 'Owner role required' });
+        return;
+      }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
+      const existing = await getPrisma().workspaceInvitation.findFirst({
+        where: { id: req.params.invitationId, workspaceId: req.params.id },
+      });
+      if (!existing) {
+        res.status(404).json({ error: 'Invitation not found' });
+        return;
+      }
+      if (existing.status !== InvitationStatus.PENDING) {
+        res.status(409).json({ error: `Invitation was already ${existing.status.toLowerCase()}` });
+        return;
+      }
+      await getPrisma().workspaceInvitation.update({
+        where: { id: existing.id },
+        data: { status: InvitationStatus.REVOKED, respondedAt: new Date(), respondedByUserId: req.user!.id },
+      });
+      await recordActivity(
+        req.params.id,
+        req.user!.id,
+        WorkspaceActivityVerb.InvitationRevoked,
+        WorkspaceActivityTargetType.Invitation,
+        existing.id,
+        { email: existing.email }
+      );
+      res.status(204).send();
+    })
+  );
+}
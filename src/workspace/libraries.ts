@@ -0,0 +1,611 @@
+// Author: Preston Lee
+
+import type { Router, Request, Response, NextFunction } from 'express';
+import { Prisma, WorkspaceRole } from '@prisma/client';
+import { getPrisma } from '../db/prisma.js';
+import { checkIfMatch, ifMatchWhere, sendPreconditionFailed, setEntityTag } from '../http/etag.js';
+import {
+  recordActivity,
+  rejectIfArchived,
+  resolveEffectiveWorkspaceRole,
+  roleAtLeast,
+} from './access.js';
+import { WorkspaceActivityTargetType, WorkspaceActivityVerb } from './activity.js';
+import { buildFhirLibraryBundle, type FhirLibraryStatus } from './fhir-bundle.js';
+import {
+  buildLineDiffHunks,
+  diffLines,
+  LINE_DIFF_DEFAULT_CONTEXT,
+  LINE_DIFF_MAX_CONTEXT,
+  summarizeLineDiff,
+} from './library-diff.js';
+
+const AUTHOR_SELECT = { id: true, email: true, displayName: true } as const;
+
+/** Revision fields returned in listings (CQL source omitted). */
+const REVISION_SUMMARY_SELECT = {
+  id: true,
+  libraryId: true,
+  revisionNumber: true,
+  name: true,
+  version: true,
+  message: true,
+  authorUserId: true,
+  author: { select: AUTHOR_SELECT },
+  createdAt: true,
+} as const;
+
+function asyncHandler(
+  fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+}
+
+export interface CqlLibraryIdentifier {
+  name: string;
+  version: string | null;
+}
+
+/**
+ * Reads the `library Name version '1.0.0'` header from CQL source.
+ * Returns null when the source has no library declaration.
+ */
+export function parseCqlLibraryIdentifier(cql: string): CqlLibraryIdentifier | null {
+  const match = /^\s*library\s+(?:"([^"]+)"|([A-Za-z_][A-Za-z0-9_]*))(?:\s+version\s+'([^']*)')?/m.exec(
+    cql
+  );
+  if (!match) {
+    return null;
+  }
+  return { name: match[1] ?? match[2], version: match[3] ?? null };
+}
+
+function optionalTrimmed(raw: unknown): string | null | undefined {
+  if (raw === null) {
+    return null;
+  }
+  if (typeof raw !== 'string') {
+    return undefined;
+  }
+  return raw.trim() || null;
+}
+
+function isUniqueViolation(err: unknown): boolean {
+  return err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002';
+}
+
+async function findLibrary(workspaceId: string, libraryId: string) {
+  return getPrisma().workspaceLibrary.findFirst({
+    where: { id: libraryId, workspaceId },
+  });
+}
+
+async function latestRevision(libraryId: string) {
+  return getPrisma().workspaceLibraryRevision.findFirst({
+    where: { libraryId },
+    orderBy: { revisionNumber: 'desc' },
+    include: { author: { select: AUTHOR_SELECT } },
+  });
+}
+
+async function findRevision(libraryId: string, revisionId: string) {
+  return getPrisma().workspaceLibraryRevision.findFirst({
+    where: { id: revisionId, libraryId },
+    include: { author: { select: AUTHOR_SELECT } },
+  });
+}
+
+function parseDiffContext(raw: unknown): number {
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    return LINE_DIFF_DEFAULT_CONTEXT;
+  }
+  return Math.min(Math.floor(value), LINE_DIFF_MAX_CONTEXT);
+}
+
+function parseCanonicalBase(raw: unknown): string | null | undefined {
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return undefined;
+  }
+  try {
+    const url = new URL(raw.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseFhirLibraryStatus(raw: unknown): FhirLibraryStatus {
+  return raw === 'active' || raw === 'retired' ? raw : 'draft';
+}
+
+interface RevisionContent {
+  name: string;
+  version: string | null;
+  cql: string;
+  message: string | null;
+}
+
+/**
+ * Appends a revision and mirrors its name/version onto the library row.
+ * Concurrent saves race on the (libraryId, revisionNumber) unique index; the loser gets P2002.
+ * Returns null without writing when the library no longer matches `version` (see `ifMatchWhere`).
+ */
+async function writeRevision(
+  tx: Prisma.TransactionClient,
+  libraryId: string,
+  authorUserId: string,
+  content: RevisionContent,
+  version: { updatedAt?: Date } = {}
+) {
+  const { count } = await tx.workspaceLibrary.updateMany({
+    where: { id: libraryId, ...version },
+    data: { name: content.name, version: content.version },
+  });
+  if (!count) {
+    return null;
+  }
+  const previous = await tx.workspaceLibraryRevision.findFirst({
+    where: { libraryId },
+    orderBy: { revisionNumber: 'desc' },
+    select: { revisionNumber: true },
+  });
+  const revision = await tx.workspaceLibraryRevision.create({
+    data: {
+      libraryId,
+      revisionNumber: (previous?.revisionNumber ?? 0) + 1,
+      name: content.name,
+      version: content.version,
+      cql: content.cql,
+      message: content.message,
+      authorUserId,
+    },
+    include: { author: { select: AUTHOR_SELECT } },
+  });
+  const library = await tx.workspaceLibrary.findUniqueOrThrow({ where: { id: libraryId } });
+  return { library, revision };
+}
+
+async function appendRevision(
+  libraryId: string,
+  authorUserId: string,
+  content: RevisionContent,
+  version: { updatedAt?: Date }
+) {
+  return getPrisma().$transaction((tx) =>
+    writeRevision(tx, libraryId, authorUserId, content, version)
+  );
+}
+
+/** Library CRUD under /api/workspaces/:id/libraries (mounted on the workspace router). */
+export function registerLibraryRoutes(router: Router): void {
+  router.get(
+    '/:id/libraries',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+      const libraries = await getPrisma().workspaceLibrary.findMany({
+        where: { workspaceId: req.params.id },
+        orderBy: [{ name: 'asc' }],
+        include: {
+          revisions: {
+            orderBy: { revisionNumber: 'desc' },
+            take: 1,
+            select: REVISION_SUMMARY_SELECT,
+          },
+        },
+      });
+      res.json(
+        libraries.map(({ revisions, ...library }) => ({
+          ...library,
+          latestRevision: revisions[0] ?? null,
+        }))
+      );
+    })
+  );
+
+  router.post(
+    '/:id/libraries',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.EDITOR)) {
+        res.status(403).json({ error: 'Editor role required' });
+        return;
+      }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
+      const cql = typeof req.body?.cql === 'string' ? req.body.cql : '';
+      if (!cql.trim()) {
+        res.status(400).json({ error: 'cql is required' });
+        return;
+      }
+      const parsed = parseCqlLibraryIdentifier(cql);
+      const name = optionalTrimmed(req.body?.name) ?? parsed?.name ?? '';
+      if (!name) {
+        res.status(400).json({ error: 'name is required when the CQL has no library declaration' });
+        return;
+      }
+      const requestedVersion = optionalTrimmed(req.body?.version);
+      const version = requestedVersion !== undefined ? requestedVersion : (parsed?.version ?? null);
+      const message = optionalTrimmed(req.body?.message) ?? null;
+
+      // One transaction, so a failed first revision does not leave an empty library behind.
+      let saved;
+      try {
+        saved = await getPrisma().$transaction(async (tx) => {
+          const created = await tx.workspaceLibrary.create({
+            data: {
+              workspaceId: req.params.id,
+              name,
+              version,
+              createdByUserId: req.user!.id,
+            },
+          });
+          return writeRevision(tx, created.id, req.user!.id, { name, version, cql, message });
+        });
+      } catch (err) {
+        if (isUniqueViolation(err)) {
+          res.status(409).json({ error: 'A library with that name already exists in this workspace' });
+          return;
+        }
+        throw err;
+      }
+      const { library, revision } = saved!;
+      await recordActivity(
+        req.params.id,
+        req.user!.id,
+        WorkspaceActivityVerb.LibraryCreated,
+        WorkspaceActivityTargetType.Library,
+        library.id,
+        { name, version, revisionId: revision.id, revisionNumber: revision.revisionNumber }
+      );
+      setEntityTag(res, library);
+      res.status(201).json({ ...library, latestRevision: revision });
+    })
+  );
+
+  router.get(
+    '/:id/libraries/:libId',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+      const library = await findLibrary(req.params.id, req.params.libId);
+      if (!library) {
+        res.status(404).json({ error: 'Library not found' });
+        return;
+      }
+      setEntityTag(res, library);
+      res.json({ ...library, latestRevision: await latestRevision(library.id) });
+    })
+  );
+
+  router.patch(
+    '/:id/libraries/:libId',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.EDITOR)) {
+        res.status(403).json({ error: 'Editor role required' });
+        return;
+      }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
+      const library = await findLibrary(req.params.id, req.params.libId);
+      if (!library) {
+        res.status(404).json({ error: 'Library not found' });
+        return;
+      }
+      if (!checkIfMatch(req, res, library)) {
+        return;
+      }
+      const current = await latestRevision(library.id);
+      if (req.body?.cql !== undefined && (typeof req.body.cql !== 'string' || !req.body.cql.trim())) {
+        res.status(400).json({ error: 'cql must be a non-empty string' });
+        return;
+      }
+      const cql = typeof req.body?.cql === 'string' ? req.body.cql : (current?.cql ?? '');
+      const name = optionalTrimmed(req.body?.name) ?? library.name;
+      const requestedVersion = optionalTrimmed(req.body?.version);
+      const version = requestedVersion !== undefined ? requestedVersion : library.version;
+      const message = optionalTrimmed(req.body?.message) ?? null;
+
+      if (current && current.cql === cql && current.name === name && current.version === version) {
+        setEntityTag(res, library);
+        res.json({ ...library, latestRevision: current });
+        return;
+      }
+
+      let saved;
+      try {
+        saved = await appendRevision(
+          library.id,
+          req.user!.id,
+          { name, version, cql, message },
+          ifMatchWhere(req, library)
+        );
+      } catch (err) {
+        if (isUniqueViolation(err)) {
+          res.status(409).json({
+            error: 'Library name conflicts with another library or was modified concurrently',
+          });
+          return;
+        }
+        throw err;
+      }
+      if (!saved) {
+        sendPreconditionFailed(res);
+        return;
+      }
+      await recordActivity(
+        req.params.id,
+        req.user!.id,
+        WorkspaceActivityVerb.LibraryUpdated,
+        WorkspaceActivityTargetType.Library,
+        library.id,
+        {
+          name,
+          version,
+          revisionId: saved.revision.id,
+          revisionNumber: saved.revision.revisionNumber,
+        }
+      );
+      setEntityTag(res, saved.library);
+      res.json({ ...saved.library, latestRevision: saved.revision });
+    })
+  );
+
+  router.get(
+    '/:id/fhir-bundle',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+      const canonicalBase = parseCanonicalBase(req.query.canonicalBase);
+      if (canonicalBase === null) {
+        res.status(400).json({ error: 'canonicalBase must be an http or https URL' });
+        return;
+      }
+      const [workspace, libraries, resources] = await Promise.all([
+        getPrisma().workspace.findUnique({
+          where: { id: req.params.id },
+          select: { slug: true },
+        }),
+        getPrisma().workspaceLibrary.findMany({
+          where: { workspaceId: req.params.id },
+          orderBy: { name: 'asc' },
+          include: {
+            revisions: { orderBy: { revisionNumber: 'desc' }, take: 1, select: { cql: true } },
+          },
+        }),
+        getPrisma().workspaceResourceReference.findMany({
+          where: { workspaceId: req.params.id },
+        }),
+      ]);
+      if (!workspace) {
+        res.status(404).json({ error: 'Workspace not found' });
+        return;
+      }
+      const bundle = buildFhirLibraryBundle(
+        libraries.map((l) => ({
+          id: l.id,
+          name: l.name,
+          version: l.version,
+          cql: l.revisions[0]?.cql ?? '',
+          updatedAt: l.updatedAt,
+        })),
+        resources,
+        { canonicalBase, status: parseFhirLibraryStatus(req.query.status) }
+      );
+      if (req.query.download === '1' || req.query.download === 'true') {
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="${workspace.slug}.fhir-bundle.json"`
+        );
+      }
+      res.type('application/fhir+json').send(JSON.stringify(bundle));
+    })
+  );
+
+  router.get(
+    '/:id/libraries/:libId/revisions',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+      const library = await findLibrary(req.params.id, req.params.libId);
+      if (!library) {
+        res.status(404).json({ error: 'Library not found' });
+        return;
+      }
+      const revisions = await getPrisma().workspaceLibraryRevision.findMany({
+        where: { libraryId: library.id },
+        orderBy: { revisionNumber: 'desc' },
+        select: REVISION_SUMMARY_SELECT,
+      });
+      res.json(revisions);
+    })
+  );
+
+  router.get(
+    '/:id/libraries/:libId/revisions/:revId',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+      const library = await findLibrary(req.params.id, req.params.libId);
+      if (!library) {
+        res.status(404).json({ error: 'Library not found' });
+        return;
+      }
+      const revision = await findRevision(library.id, req.params.revId);
+      if (!revision) {
+        res.status(404).json({ error: 'Revision not found' });
+        return;
+      }
+      res.json(revision);
+    })
+  );
+
+  router.get(
+    '/:id/libraries/:libId/diff',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+      const library = await findLibrary(req.params.id, req.params.libId);
+      if (!library) {
+        res.status(404).json({ error: 'Library not found' });
+        return;
+      }
+      const fromId = typeof req.query.from === 'string' ? req.query.from.trim() : '';
+      if (!fromId) {
+        res.status(400).json({ error: 'from revision id is required' });
+        return;
+      }
+      const toId = typeof req.query.to === 'string' ? req.query.to.trim() : '';
+      const [from, to] = await Promise.all([
+        findRevision(library.id, fromId),
+        toId ? findRevision(library.id, toId) : latestRevision(library.id),
+      ]);
+      if (!from || !to) {
+        res.status(404).json({ error: 'Revision not found' });
+        return;
+      }
+      const entries = diffLines(from.cql, to.cql);
+      if (!entries) {
+        res.status(422).json({ error: 'Revisions are too large or too different to diff' });
+        return;
+      }
+      const { cql: _fromCql, ...fromSummary } = from;
+      const { cql: _toCql, ...toSummary } = to;
+      res.json({
+        from: fromSummary,
+        to: toSummary,
+        stats: summarizeLineDiff(entries),
+        hunks: buildLineDiffHunks(entries, parseDiffContext(req.query.context)),
+      });
+    })
+  );
+
+  router.post(
+    '/:id/libraries/:libId/revisions/:revId/restore',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.EDITOR)) {
+        res.status(403).json({ error: 'Editor role required' });
+        return;
+      }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
+      const library = await findLibrary(req.params.id, req.params.libId);
+      if (!library) {
+        res.status(404).json({ error: 'Library not found' });
+        return;
+      }
+      if (!checkIfMatch(req, res, library)) {
+        return;
+      }
+      const source = await findRevision(library.id, req.params.revId);
+      if (!source) {
+        res.status(404).json({ error: 'Revision not found' });
+        return;
+      }
+      const message =
+        optionalTrimmed(req.body?.message) ?? `Restored from revision ${source.revisionNumber}`;
+
+      let saved;
+      try {
+        saved = await appendRevision(
+          library.id,
+          req.user!.id,
+          { name: source.name, version: source.version, cql: source.cql, message },
+          ifMatchWhere(req, library)
+        );
+      } catch (err) {
+        if (isUniqueViolation(err)) {
+          res.status(409).json({
+            error: 'Library name conflicts with another library or was modified concurrently',
+          });
+          return;
+        }
+        throw err;
+      }
+      if (!saved) {
+        sendPreconditionFailed(res);
+        return;
+      }
+      await recordActivity(
+        req.params.id,
+        req.user!.id,
+        WorkspaceActivityVerb.LibraryRestored,
+        WorkspaceActivityTargetType.Library,
+        library.id,
+        {
+          name: saved.library.name,
+          sourceRevisionId: source.id,
+          sourceRevisionNumber: source.revisionNumber,
+          targetRevisionId: saved.revision.id,
+          targetRevisionNumber: saved.revision.revisionNumber,
+        }
+      );
+      setEntityTag(res, saved.library);
+      res.status(201).json({ ...saved.library, latestRevision: saved.revision });
+    })
+  );
+
+  router.delete(
+    '/:id/libraries/:libId',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.EDITOR)) {
+        res.status(403).json({ error: 'Editor role required' });
+        return;
+      }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
+      const library = await findLibrary(req.params.id, req.params.libId);
+      if (!library) {
+        res.status(404).json({ error: 'Library not found' });
+        return;
+      }
+      if (!checkIfMatch(req, res, library)) {
+        return;
+      }
+      const { count } = await getPrisma().workspaceLibrary.deleteMany({
+        where: { id: library.id, ...ifMatchWhere(req, library) },
+      });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
+      await recordActivity(
+        req.params.id,
+        req.user!.id,
+        WorkspaceActivityVerb.LibraryRemoved,
+        WorkspaceActivityTargetType.Library,
+        library.id,
+        { name: library.name, version: library.version }
+      );
+      res.status(204).send();
+    })
+  );
+}
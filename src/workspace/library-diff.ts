@@ -0,0 +1,180 @@
+// Author: Preston Lee
+
+export type LineDiffType = 'equal' | 'added' | 'removed';
+
+export interface LineDiffEntry {
+  type: LineDiffType;
+  /** 1-based line number in the old text (null for added lines). */
+  oldLineNumber: number | null;
+  /** 1-based line number in the new text (null for removed lines). */
+  newLineNumber: number | null;
+  text: string;
+}
+
+export interface LineDiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: LineDiffEntry[];
+}
+
+export interface LineDiffStats {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+export const LINE_DIFF_DEFAULT_CONTEXT = 3;
+export const LINE_DIFF_MAX_CONTEXT = 1000;
+/** Per side; larger texts are not diffed. */
+export const LINE_DIFF_MAX_LINES = 20000;
+/** Changed lines (added + removed) beyond which the diff is abandoned; bounds the trace. */
+export const LINE_DIFF_MAX_EDIT_DISTANCE = 2000;
+
+export function splitLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Line-level diff (Myers O((N+M)·D)). The band kept for backtracking grows by 2d+1 entries per
+ * step, so memory is O(D²) in the edit distance D. Returns null when either side exceeds
+ * `LINE_DIFF_MAX_LINES` or D exceeds `maxEditDistance`.
+ */
+export function diffLines(
+  oldText: string,
+  newText: string,
+  maxEditDistance: number = LINE_DIFF_MAX_EDIT_DISTANCE
+): LineDiffEntry[] | null {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const n = a.length;
+  const m = b.length;
+  if (n > LINE_DIFF_MAX_LINES || m > LINE_DIFF_MAX_LINES) {
+    return null;
+  }
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    if (d > maxEditDistance) {
+      return null;
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break search;
+      }
+    }
+  }
+
+  const reversed: { type: LineDiffType; oldIndex: number; newIndex: number }[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const band = trace[d];
+    const at = (k: number) => band[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      reversed.push({ type: 'equal', oldIndex: x, newIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        reversed.push({ type: 'added', oldIndex: x, newIndex: y - 1 });
+      } else {
+        reversed.push({ type: 'removed', oldIndex: x - 1, newIndex: y });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return reversed.reverse().map((op) => ({
+    type: op.type,
+    oldLineNumber: op.type === 'added' ? null : op.oldIndex + 1,
+    newLineNumber: op.type === 'removed' ? null : op.newIndex + 1,
+    text: op.type === 'added' ? b[op.newIndex] : a[op.oldIndex],
+  }));
+}
+
+export function summarizeLineDiff(entries: readonly LineDiffEntry[]): LineDiffStats {
+  const stats: LineDiffStats = { added: 0, removed: 0, unchanged: 0 };
+  for (const entry of entries) {
+    if (entry.type === 'added') {
+      stats.added++;
+    } else if (entry.type === 'removed') {
+      stats.removed++;
+    } else {
+      stats.unchanged++;
+    }
+  }
+  return stats;
+}
+
+/** Groups changes into unified-diff style hunks with `context` unchanged lines around each change. */
+export function buildLineDiffHunks(
+  entries: readonly LineDiffEntry[],
+  context: number = LINE_DIFF_DEFAULT_CONTEXT
+): LineDiffHunk[] {
+  const ranges: { start: number; end: number }[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    if (entries[i].type === 'equal') {
+      continue;
+    }
+    const start = Math.max(0, i - context);
+    const end = Math.min(entries.length, i + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  const hunks: LineDiffHunk[] = [];
+  let cursor = 0;
+  let oldBefore = 0;
+  let newBefore = 0;
+  for (const { start, end } of ranges) {
+    for (; cursor < start; cursor++) {
+      oldBefore += entries[cursor].type === 'added' ? 0 : 1;
+      newBefore += entries[cursor].type === 'removed' ? 0 : 1;
+    }
+    const lines = entries.slice(start, end);
+    const oldLines = lines.filter((l) => l.type !== 'added').length;
+    const newLines = lines.filter((l) => l.type !== 'removed').length;
+    // Unified diffs report a zero-length side at the line before the change.
+    hunks.push({
+      oldStart: oldLines ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines ? newBefore + 1 : newBefore,
+      newLines,
+      lines,
+    });
+  }
+  return hunks;
+}
@@ -0,0 +1,167 @@
+// Author: Preston Lee
+
+import { EventEmitter } from 'node:events';
+
+/** Entries not refreshed by a heartbeat within this window are dropped. */
+export const WORKSPACE_PRESENCE_TTL_MS = 45_000;
+export const WORKSPACE_PRESENCE_SWEEP_MS = 10_000;
+
+export interface PresenceUser {
+  id: string;
+  email: string | null;
+  displayName: string | null;
+}
+
+export interface PresenceViewing {
+  /** e.g. `library`, `Library`, `ValueSet`; null when only the workspace itself is open. */
+  resourceType: string | null;
+  resourceId: string | null;
+}
+
+export interface WorkspacePresenceEntry extends PresenceViewing {
+  user: PresenceUser;
+  since: string;
+  lastSeenAt: string;
+}
+
+interface StoredEntry {
+  user: PresenceUser;
+  viewing: PresenceViewing;
+  since: number;
+  lastSeenAt: number;
+}
+
+export interface WorkspacePresenceOptions {
+  ttlMs?: number;
+  sweepMs?: number;
+  now?: () => number;
+}
+
+/**
+ * In-memory presence keyed by workspace id and user id. Each heartbeat replaces the user's
+ * entry; expired entries are swept on a timer that only runs while anyone is present.
+ */
+export class WorkspacePresenceRegistry {
+  private readonly byWorkspace = new Map<string, Map<string, StoredEntry>>();
+  private readonly events = new EventEmitter();
+  private readonly ttlMs: number;
+  private readonly sweepMs: number;
+  private readonly now: () => number;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: WorkspacePresenceOptions = {}) {
+    this.ttlMs = options.ttlMs ?? WORKSPACE_PRESENCE_TTL_MS;
+    this.sweepMs = options.sweepMs ?? WORKSPACE_PRESENCE_SWEEP_MS;
+    this.now = options.now ?? Date.now;
+    this.events.setMaxListeners(0);
+  }
+
+  heartbeat(workspaceId: string, user: PresenceUser, viewing: PresenceViewing): WorkspacePresenceEntry[] {
+    let entries = this.byWorkspace.get(workspaceId);
+    if (!entries) {
+      entries = new Map();
+      this.byWorkspace.set(workspaceId, entries);
+    }
+    const now = this.now();
+    const previous = entries.get(user.id);
+    const changed =
+      !previous ||
+      previous.viewing.resourceType !== viewing.resourceType ||
+      previous.viewing.resourceId !== viewing.resourceId;
+    entries.set(user.id, {
+      user,
+      viewing,
+      since: previous && !changed ? previous.since : now,
+      lastSeenAt: now,
+    });
+    this.ensureSweeping();
+    if (changed) {
+      this.emit(workspaceId);
+    }
+    return this.list(workspaceId);
+  }
+
+  leave(workspaceId: string, userId: string): void {
+    const entries = this.byWorkspace.get(workspaceId);
+    if (!entries?.delete(userId)) {
+      return;
+    }
+    if (entries.size === 0) {
+      this.byWorkspace.delete(workspaceId);
+    }
+    this.emit(workspaceId);
+  }
+
+  list(workspaceId: string): WorkspacePresenceEntry[] {
+    const entries = this.byWorkspace.get(workspaceId);
+    if (!entries) {
+      return [];
+    }
+    const cutoff = this.now() - this.ttlMs;
+    return [...entries.values()]
+      .filter((entry) => entry.lastSeenAt >= cutoff)
+      .sort((a, b) => a.since - b.since)
+      .map((entry) => ({
+        user: entry.user,
+        resourceType: entry.viewing.resourceType,
+        resourceId: entry.viewing.resourceId,
+        since: new Date(entry.since).toISOString(),
+        lastSeenAt: new Date(entry.lastSeenAt).toISOString(),
+      }));
+  }
+
+  /** Drops expired entries and notifies subscribers of affected workspaces. Returns the number removed. */
+  sweep(): number {
+    const cutoff = this.now() - this.ttlMs;
+    let removed = 0;
+    for (const [workspaceId, entries] of this.byWorkspace) {
+      let changed = false;
+      for (const [userId, entry] of entries) {
+        if (entry.lastSeenAt < cutoff) {
+          entries.delete(userId);
+          removed++;
+          changed = true;
+        }
+      }
+      if (entries.size === 0) {
+        this.byWorkspace.delete(workspaceId);
+      }
+      if (changed) {
+        this.emit(workspaceId);
+      }
+    }
+    if (this.byWorkspace.size === 0) {
+      this.stopSweeping();
+    }
+    return removed;
+  }
+
+  /** Listener receives the full presence list whenever it changes. Returns an unsubscribe function. */
+  subscribe(workspaceId: string, listener: (entries: WorkspacePresenceEntry[]) => void): () => void {
+    this.events.on(workspaceId, listener);
+    return () => {
+      this.events.off(workspaceId, listener);
+    };
+  }
+
+  stopSweeping(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  private ensureSweeping(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+    this.sweepTimer = setInterval(() => this.sweep(), this.sweepMs);
+    this.sweepTimer.unref();
+  }
+
+  private emit(workspaceId: string): void {
+    this.events.emit(workspaceId, this.list(workspaceId));
+  }
+}
+
+export const workspacePresence = new WorkspacePresenceRegistry();
@@ -10,11 +10,24 @@ import {
 } from '@prisma/client';
 import { getPrisma } from '../db/prisma.js';
 import type { ServerEnv } from '../config/env.js';
-import { requireAuth, requireSsoConfigured } from '../auth/session.js';
+import { requireCsrf } from '../auth/csrf.js';
+import {
+  publicUser,
+  reloadRequestUser,
+  requireAuth,
+  requireSsoConfigured,
+} from '../auth/session.js';
+import { checkIfMatch, ifMatchWhere, sendPreconditionFailed, setEntityTag } from '../http/etag.js';
+import { openEventStream } from '../http/sse.js';
+import { trashPurgeAt } from '../services/trash-purge.js';
+import { clearWorkspaceOwnerMissing } from '../user/deprovision.js';
 import {
   countOwners,
   listAccessibleWorkspaceIds,
+  listOwnedTrashedWorkspaceIds,
+  parseWorkspaceRole,
   recordActivity,
+  rejectIfArchived,
   resolveEffectiveWorkspaceRole,
   roleAtLeast,
   uniqueSlug,
@@ -28,6 +41,26 @@ import {
   WorkspaceActivityTargetType,
   WorkspaceActivityVerb,
 } from './activity.js';
+import {
+  subscribeToWorkspaceActivity,
+  WORKSPACE_ACTIVITY_ACTOR_SELECT,
+  WORKSPACE_ACTIVITY_STREAM_REPLAY_LIMIT,
+  type PublishedWorkspaceActivity,
+} from './activity-stream.js';
+import {
+  buildWorkspaceBundle,
+  importWorkspaceBundle,
+  parseWorkspaceBundle,
+  WORKSPACE_BUNDLE_FORMAT,
+  WorkspaceBundleError,
+  type WorkspaceBundle,
+} from './bundle.js';
+import { stripSecretsFromConfig } from './environment-config.js';
+import { registerWorkspaceInvitationRoutes } from './invitations.js';
+import { registerLibraryRoutes } from './libraries.js';
+import { workspacePresence, type PresenceViewing } from './presence.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 function asyncHandler(
   fn: (req: Request, res: Response, next: NextFunction) => Promise<void>
@@ -37,70 +70,62 @@ function asyncHandler(
   };
 }
 
-function parseRole(raw: unknown): WorkspaceRole | null {
-  if (typeof raw !== 'string') {
-    return null;
-  }
-  const upper = raw.toUpperCase();
-  if (upper === 'OWNER' || upper === 'EDITOR' || upper === 'VIEWER') {
-    return upper as WorkspaceRole;
-  }
-  return null;
-}
-
 function parsePrincipalType(raw: unknown): WorkspacePrincipalType | null {
   if (typeof raw !== 'string') {
     return null;
   }
   const upper = raw.toUpperCase();
-  if (upper === 'USER' || upper === 'TEAM') {
+  if (upper === 'USER' || upper === 'TEAM' || upper === 'SERVICE_ACCOUNT') {
     return upper as WorkspacePrincipalType;
   }
   return null;
 }
 
-function stripSecretsFromConfig(config: unknown): Record<string, unknown> {
-  if (!config || typeof config !== 'object') {
-    return {};
-  }
-  const clone = JSON.parse(JSON.stringify(config)) as Record<string, unknown>;
-  const scrub = (endpoint: unknown) => {
-    if (!endpoint || typeof endpoint !== 'object') {
-      return endpoint;
-    }
-    const e = endpoint as Record<string, unknown>;
-    delete e.basicAuthPassword;
-    delete e.basicAuthUsername;
-    return e;
-  };
-  if (clone.evaluationServer) {
-    clone.evaluationServer = scrub(clone.evaluationServer);
-  }
-  if (clone.dataEndpoint) {
-    clone.dataEndpoint = scrub(clone.dataEndpoint);
-  }
-  if (clone.terminologyEndpoint) {
-    clone.terminologyEndpoint = scrub(clone.terminologyEndpoint);
-  }
-  if (clone.contentEndpoint) {
-    clone.contentEndpoint = scrub(clone.contentEndpoint);
-  }
-  delete clone.basicAuthPassword;
-  delete clone.basicAuthUsername;
-  return clone;
+function parsePresenceViewing(body: unknown): PresenceViewing {
+  const raw = (body ?? {}) as { resourceType?: unknown; resourceId?: unknown };
+  const field = (value: unknown) =>
+    typeof value === 'string' && value.trim() ? value.trim().slice(0, 256) : null;
+  const resourceType = field(raw.resourceType);
+  return { resourceType, resourceId: resourceType ? field(raw.resourceId) : null };
+}
+
+/**
+ * Event stream heartbeats reload the credential and user, so revoked sessions, disabled users and
+ * lost access all end open streams.
+ */
+async function streamStillAllowed(
+  req: Request,
+  env: ServerEnv,
+  workspaceId: string
+): Promise<boolean> {
+  const user = await reloadRequestUser(req, env);
+  return (
+    !!user &&
+    roleAtLeast(await resolveEffectiveWorkspaceRole(user, workspaceId), WorkspaceRole.VIEWER)
+  );
 }
 
 export function createWorkspaceRouter(env: ServerEnv): Router {
   const router = Router();
   router.use(requireSsoConfigured(env));
   router.use(requireAuth(env));
+  router.use(requireCsrf(env));
 
   router.get(
     '/',
     asyncHandler(async (req, res) => {
       const ids = await listAccessibleWorkspaceIds(req.user!);
+      const archived = typeof req.query.archived === 'string' ? req.query.archived : undefined;
+      if (archived !== undefined && archived !== 'true' && archived !== 'false') {
+        res.status(400).json({ error: 'archived must be true or false' });
+        return;
+      }
       const workspaces = await getPrisma().workspace.findMany({
-        where: { id: { in: ids } },
+        where: {
+          id: { in: ids },
+          ...(archived === 'true' && { archivedAt: { not: null } }),
+          ...(archived === 'false' && { archivedAt: null }),
+        },
         orderBy: { updatedAt: 'desc' },
       });
       const withRoles = await Promise.all(
@@ -159,10 +184,65 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         WorkspaceActivityTargetType.Workspace,
         workspace.id
       );
+      setEntityTag(res, workspace);
+      res.status(201).json({ ...workspace, myRole: WorkspaceRole.OWNER });
+    })
+  );
+
+  router.post(
+    '/import',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      let bundle: WorkspaceBundle;
+      try {
+        bundle = parseWorkspaceBundle(req.body);
+      } catch (err) {
+        if (err instanceof WorkspaceBundleError) {
+          res.status(400).json({ error: err.message });
+          return;
+        }
+        throw err;
+      }
+      const name = typeof req.query.name === 'string' ? req.query.name : undefined;
+      const workspace = await importWorkspaceBundle(user, bundle, { name });
+      await recordActivity(
+        workspace.id,
+        user.id,
+        WorkspaceActivityVerb.WorkspaceImported,
+        WorkspaceActivityTargetType.Workspace,
+        workspace.id,
+        {
+          sourceSlug: bundle.workspace.slug || null,
+          exportedAt: bundle.exportedAt,
+          environments: bundle.environments.length,
+          resources: bundle.resources.length,
+          libraries: bundle.libraries.length,
+        }
+      );
+      setEntityTag(res, workspace);
       res.status(201).json({ ...workspace, myRole: WorkspaceRole.OWNER });
     })
   );
 
+  router.get(
+    '/trash',
+    asyncHandler(async (req, res) => {
+      const ids = await listOwnedTrashedWorkspaceIds(req.user!);
+      const workspaces = await getPrisma().workspace.findMany({
+        where: { id: { in: ids } },
+        include: { deletedBy: { select: { id: true, email: true, displayName: true } } },
+        orderBy: { deletedAt: 'desc' },
+      });
+      res.json(
+        workspaces.map((w) => ({
+          ...w,
+          myRole: WorkspaceRole.OWNER,
+          purgeAt: trashPurgeAt(w.deletedAt!, env.trashRetentionDays).toISOString(),
+        }))
+      );
+    })
+  );
+
   router.get(
     '/:id',
     asyncHandler(async (req, res) => {
@@ -176,6 +256,7 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(404).json({ error: 'Workspace not found' });
         return;
       }
+      setEntityTag(res, workspace);
       res.json({ ...workspace, myRole: role });
     })
   );
@@ -188,6 +269,17 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(403).json({ error: 'Owner role required' });
         return;
       }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
+      const existing = await getPrisma().workspace.findUnique({ where: { id: req.params.id } });
+      if (!existing) {
+        res.status(404).json({ error: 'Workspace not found' });
+        return;
+      }
+      if (!checkIfMatch(req, res, existing)) {
+        return;
+      }
       const data: { name?: string; description?: string | null; visibility?: WorkspaceVisibility } =
         {};
       if (typeof req.body?.name === 'string' && req.body.name.trim()) {
@@ -205,10 +297,17 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
           data.visibility = WorkspaceVisibility.PRIVATE;
         }
       }
-      const workspace = await getPrisma().workspace.update({
-        where: { id: req.params.id },
+      const { count } = await getPrisma().workspace.updateMany({
+        where: { id: existing.id, ...ifMatchWhere(req, existing) },
         data,
       });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
+      const workspace = await getPrisma().workspace.findUniqueOrThrow({
+        where: { id: existing.id },
+      });
       await recordActivity(
         workspace.id,
         req.user!.id,
@@ -216,6 +315,7 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         WorkspaceActivityTargetType.Workspace,
         workspace.id
       );
+      setEntityTag(res, workspace);
       res.json({ ...workspace, myRole: role });
     })
   );
@@ -228,11 +328,220 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(403).json({ error: 'Owner role required' });
         return;
       }
-      await getPrisma().workspace.delete({ where: { id: req.params.id } });
+      const existing = await getPrisma().workspace.findUnique({ where: { id: req.params.id } });
+      if (!existing) {
+        res.status(404).json({ error: 'Workspace not found' });
+        return;
+      }
+      if (!checkIfMatch(req, res, existing)) {
+        return;
+      }
+      const { count } = await getPrisma().workspace.updateMany({
+        where: { id: existing.id, ...ifMatchWhere(req, existing) },
+        data: { deletedAt: new Date(), deletedByUserId: req.user!.id },
+      });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
+      await recordActivity(
+        existing.id,
+        req.user!.id,
+        WorkspaceActivityVerb.WorkspaceDeleted,
+        WorkspaceActivityTargetType.Workspace,
+        existing.id
+      );
       res.status(204).send();
     })
   );
 
+  router.post(
+    '/:id/restore',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id, {
+        includeDeleted: true,
+      });
+      if (!roleAtLeast(role, WorkspaceRole.OWNER)) {
+        res.status(role ? 403 : 404).json({ error: role ? 'Owner role required' : 'Workspace not found' });
+        return;
+      }
+      const existing = await getPrisma().workspace.findUnique({ where: { id: req.params.id } });
+      if (!existing) {
+        res.status(404).json({ error: 'Workspace not found' });
+        return;
+      }
+      if (!existing.deletedAt) {
+        res.status(409).json({ error: 'Workspace is not in the trash' });
+        return;
+      }
+      const workspace = await getPrisma().workspace.update({
+        where: { id: existing.id },
+        data: { deletedAt: null, deletedByUserId: null },
+      });
+      await recordActivity(
+        workspace.id,
+        req.user!.id,
+        WorkspaceActivityVerb.WorkspaceRestored,
+        WorkspaceActivityTargetType.Workspace,
+        workspace.id
+      );
+      setEntityTag(res, workspace);
+      res.json({ ...workspace, myRole: role });
+    })
+  );
+
+  router.post(
+    '/:id/archive',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.OWNER)) {
+        res.status(403).json({ error: 'Owner role required' });
+        return;
+      }
+      const existing = await getPrisma().workspace.findUnique({ where: { id: req.params.id } });
+      if (!existing) {
+        res.status(404).json({ error: 'Workspace not found' });
+        return;
+      }
+      if (existing.archivedAt) {
+        res.status(409).json({ error: 'Workspace is already archived' });
+        return;
+      }
+      if (!checkIfMatch(req, res, existing)) {
+        return;
+      }
+      const { count } = await getPrisma().workspace.updateMany({
+        where: { id: existing.id, ...ifMatchWhere(req, existing) },
+        data: { archivedAt: new Date() },
+      });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
+      const workspace = await getPrisma().workspace.findUniqueOrThrow({
+        where: { id: existing.id },
+      });
+      await recordActivity(
+        workspace.id,
+        req.user!.id,
+        WorkspaceActivityVerb.WorkspaceArchived,
+        WorkspaceActivityTargetType.Workspace,
+        workspace.id
+      );
+      setEntityTag(res, workspace);
+      res.json({ ...workspace, myRole: role });
+    })
+  );
+
+  router.post(
+    '/:id/unarchive',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.OWNER)) {
+        res.status(403).json({ error: 'Owner role required' });
+        return;
+      }
+      const existing = await getPrisma().workspace.findUnique({ where: { id: req.params.id } });
+      if (!existing) {
+        res.status(404).json({ error: 'Workspace not found' });
+        return;
+      }
+      if (!existing.archivedAt) {
+        res.status(409).json({ error: 'Workspace is not archived' });
+        return;
+      }
+      if (!checkIfMatch(req, res, existing)) {
+        return;
+      }
+      const { count } = await getPrisma().workspace.updateMany({
+        where: { id: existing.id, ...ifMatchWhere(req, existing) },
+        data: { archivedAt: null },
+      });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
+      const workspace = await getPrisma().workspace.findUniqueOrThrow({
+        where: { id: existing.id },
+      });
+      await recordActivity(
+        workspace.id,
+        req.user!.id,
+        WorkspaceActivityVerb.WorkspaceUnarchived,
+        WorkspaceActivityTargetType.Workspace,
+        workspace.id
+      );
+      setEntityTag(res, workspace);
+      res.json({ ...workspace, myRole: role });
+    })
+  );
+
+  router.post(
+    '/:id/fork',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      const role = await resolveEffectiveWorkspaceRole(user, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(role ? 403 : 404).json({ error: role ? 'Forbidden' : 'Workspace not found' });
+        return;
+      }
+      const bundle = await buildWorkspaceBundle(req.params.id);
+      if (!bundle) {
+        res.status(404).json({ error: 'Workspace not found' });
+        return;
+      }
+      const name = typeof req.body?.name === 'string' ? req.body.name : undefined;
+      const fork = await importWorkspaceBundle(user, bundle, {
+        name,
+        visibility: WorkspaceVisibility.PRIVATE,
+        forkedFromWorkspaceId: req.params.id,
+      });
+      await recordActivity(
+        req.params.id,
+        user.id,
+        WorkspaceActivityVerb.WorkspaceForked,
+        WorkspaceActivityTargetType.Workspace,
+        fork.id,
+        { sourceWorkspaceId: req.params.id, forkWorkspaceId: fork.id }
+      );
+      await recordActivity(
+        fork.id,
+        user.id,
+        WorkspaceActivityVerb.WorkspaceForked,
+        WorkspaceActivityTargetType.Workspace,
+        req.params.id,
+        {
+          sourceWorkspaceId: req.params.id,
+          sourceWorkspaceName: bundle.workspace.name,
+          forkWorkspaceId: fork.id,
+        }
+      );
+      setEntityTag(res, fork);
+      res.status(201).json({ ...fork, myRole: WorkspaceRole.OWNER });
+    })
+  );
+
+  router.get(
+    '/:id/export',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(role ? 403 : 404).json({ error: role ? 'Forbidden' : 'Workspace not found' });
+        return;
+      }
+      const bundle = await buildWorkspaceBundle(req.params.id);
+      if (!bundle) {
+        res.status(404).json({ error: 'Workspace not found' });
+        return;
+      }
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${bundle.workspace.slug}.${WORKSPACE_BUNDLE_FORMAT}.json"`
+      );
+      res.json(bundle);
+    })
+  );
+
   router.get(
     '/:id/grants',
     asyncHandler(async (req, res) => {
@@ -251,7 +560,10 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
       const teamIds = grants
         .filter((g) => g.principalType === WorkspacePrincipalType.TEAM)
         .map((g) => g.principalId);
-      const [users, teams] = await Promise.all([
+      const serviceAccountIds = grants
+        .filter((g) => g.principalType === WorkspacePrincipalType.SERVICE_ACCOUNT)
+        .map((g) => g.principalId);
+      const [users, teams, serviceAccounts] = await Promise.all([
         userIds.length
           ? getPrisma().user.findMany({
               where: { id: { in: userIds } },
@@ -264,9 +576,16 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
               select: { id: true, name: true },
             })
           : Promise.resolve([]),
+        serviceAccountIds.length
+          ? getPrisma().serviceAccount.findMany({
+              where: { id: { in: serviceAccountIds } },
+              select: { id: true, name: true, teamId: true },
+            })
+          : Promise.resolve([]),
       ]);
       const userById = new Map(users.map((u) => [u.id, u]));
       const teamById = new Map(teams.map((t) => [t.id, t]));
+      const serviceAccountById = new Map(serviceAccounts.map((a) => [a.id, a]));
       res.json(
         grants.map((grant) => {
           if (grant.principalType === WorkspacePrincipalType.USER) {
@@ -277,6 +596,14 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
               principalDisplayName: user?.displayName ?? null,
             };
           }
+          if (grant.principalType === WorkspacePrincipalType.SERVICE_ACCOUNT) {
+            const account = serviceAccountById.get(grant.principalId);
+            return {
+              ...grant,
+              principalName: account?.name ?? null,
+              principalTeamId: account?.teamId ?? null,
+            };
+          }
           const team = teamById.get(grant.principalId);
           return {
             ...grant,
@@ -287,6 +614,26 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
     })
   );
 
+  router.get(
+    '/:id/grants/:grantId',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+      const grant = await getPrisma().workspaceAccessGrant.findFirst({
+        where: { id: req.params.grantId, workspaceId: req.params.id },
+      });
+      if (!grant) {
+        res.status(404).json({ error: 'Grant not found' });
+        return;
+      }
+      setEntityTag(res, grant);
+      res.json(grant);
+    })
+  );
+
   router.post(
     '/:id/grants',
     asyncHandler(async (req, res) => {
@@ -295,8 +642,11 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(403).json({ error: 'Owner role required' });
         return;
       }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
       const principalType = parsePrincipalType(req.body?.type ?? req.body?.principalType);
-      const grantRole = parseRole(req.body?.role);
+      const grantRole = parseWorkspaceRole(req.body?.role);
       if (!principalType || !grantRole) {
         res.status(400).json({ error: 'type and role are required' });
         return;
@@ -311,7 +661,7 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
           return;
         }
         const matches = await getPrisma().user.findMany({
-          where: { email: { equals: email, mode: 'insensitive' } },
+          where: { email: { equals: email, mode: 'insensitive' }, deprovisionedAt: null },
           select: { id: true },
           take: 2,
         });
@@ -332,13 +682,23 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
               ? req.body.principalId.trim()
               : '';
         if (!principalId) {
-          res.status(400).json({ error: 'id is required for TEAM grants' });
+          res.status(400).json({ error: `id is required for ${principalType} grants` });
           return;
         }
-        const t = await getPrisma().team.findUnique({ where: { id: principalId } });
-        if (!t) {
-          res.status(404).json({ error: 'Team not found' });
-          return;
+        if (principalType === WorkspacePrincipalType.TEAM) {
+          const t = await getPrisma().team.findFirst({ where: { id: principalId, deletedAt: null } });
+          if (!t) {
+            res.status(404).json({ error: 'Team not found' });
+            return;
+          }
+        } else {
+          const account = await getPrisma().serviceAccount.findFirst({
+            where: { id: principalId, deletedAt: null, team: { deletedAt: null } },
+          });
+          if (!account) {
+            res.status(404).json({ error: 'Service account not found' });
+            return;
+          }
         }
       }
 
@@ -359,6 +719,9 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         },
         update: { role: grantRole, grantedByUserId: req.user!.id },
       });
+      if (grantRole === WorkspaceRole.OWNER) {
+        await clearWorkspaceOwnerMissing(req.params.id);
+      }
       await recordActivity(
         req.params.id,
         req.user!.id,
@@ -367,6 +730,7 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         grant.id,
         { principalType, principalId, role: grantRole }
       );
+      setEntityTag(res, grant);
       res.status(201).json(grant);
     })
   );
@@ -379,7 +743,10 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(403).json({ error: 'Owner role required' });
         return;
       }
-      const grantRole = parseRole(req.body?.role);
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
+      const grantRole = parseWorkspaceRole(req.body?.role);
       if (!grantRole) {
         res.status(400).json({ error: 'role is required' });
         return;
@@ -391,18 +758,31 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(404).json({ error: 'Grant not found' });
         return;
       }
+      if (!checkIfMatch(req, res, existing)) {
+        return;
+      }
       if (
         existing.role === WorkspaceRole.OWNER &&
         grantRole !== WorkspaceRole.OWNER &&
-        (await countOwners(req.params.id)) <= 1
+        (await countOwners(req.params.id, existing.id)) === 0
       ) {
         res.status(409).json({ error: 'Workspace must have at least one owner' });
         return;
       }
-      const grant = await getPrisma().workspaceAccessGrant.update({
-        where: { id: existing.id },
+      const { count } = await getPrisma().workspaceAccessGrant.updateMany({
+        where: { id: existing.id, ...ifMatchWhere(req, existing) },
         data: { role: grantRole },
       });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
+      const grant = await getPrisma().workspaceAccessGrant.findUniqueOrThrow({
+        where: { id: existing.id },
+      });
+      if (grantRole === WorkspaceRole.OWNER) {
+        await clearWorkspaceOwnerMissing(req.params.id);
+      }
       await recordActivity(
         req.params.id,
         req.user!.id,
@@ -410,6 +790,7 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         WorkspaceActivityTargetType.Grant,
         grant.id
       );
+      setEntityTag(res, grant);
       res.json(grant);
     })
   );
@@ -422,6 +803,9 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(403).json({ error: 'Owner role required' });
         return;
       }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
       const existing = await getPrisma().workspaceAccessGrant.findFirst({
         where: { id: req.params.grantId, workspaceId: req.params.id },
       });
@@ -429,11 +813,23 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(404).json({ error: 'Grant not found' });
         return;
       }
-      if (existing.role === WorkspaceRole.OWNER && (await countOwners(req.params.id)) <= 1) {
+      if (!checkIfMatch(req, res, existing)) {
+        return;
+      }
+      if (
+        existing.role === WorkspaceRole.OWNER &&
+        (await countOwners(req.params.id, existing.id)) === 0
+      ) {
         res.status(409).json({ error: 'Workspace must have at least one owner' });
         return;
       }
-      await getPrisma().workspaceAccessGrant.delete({ where: { id: existing.id } });
+      const { count } = await getPrisma().workspaceAccessGrant.deleteMany({
+        where: { id: existing.id, ...ifMatchWhere(req, existing) },
+      });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
       await recordActivity(
         req.params.id,
         req.user!.id,
@@ -458,7 +854,7 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
       const [items, total] = await Promise.all([
         getPrisma().workspaceActivity.findMany({
           where,
-          include: { actor: { select: { id: true, email: true, displayName: true } } },
+          include: { actor: { select: WORKSPACE_ACTIVITY_ACTOR_SELECT } },
           orderBy: { [sortBy]: sortOrder },
           skip,
           take: pageSize,
@@ -469,6 +865,145 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
     })
   );
 
+  router.get(
+    '/:id/activity/stream',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      const workspaceId = req.params.id;
+      const role = await resolveEffectiveWorkspaceRole(user, workspaceId);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+      const lastEventId =
+        req.get('Last-Event-ID')?.trim() ||
+        (typeof req.query.lastEventId === 'string' ? req.query.lastEventId.trim() : '');
+
+      const stream = openEventStream(req, res, {
+        onHeartbeat: () => streamStillAllowed(req, env, workspaceId),
+      });
+      const send = (activity: PublishedWorkspaceActivity) =>
+        stream.send('activity', activity, activity.id);
+
+      // Subscribe before replaying so nothing recorded in between is lost; buffered live
+      // events are flushed after the replay, skipping any the replay already delivered.
+      const buffered: PublishedWorkspaceActivity[] = [];
+      let replaying = true;
+      stream.onClose(
+        subscribeToWorkspaceActivity(workspaceId, (activity) => {
+          if (replaying) {
+            buffered.push(activity);
+          } else {
+            send(activity);
+          }
+        })
+      );
+
+      const delivered = new Set<string>();
+      try {
+        if (lastEventId) {
+          const since = UUID_PATTERN.test(lastEventId)
+            ? await getPrisma().workspaceActivity.findFirst({
+                where: { id: lastEventId, workspaceId },
+                select: { id: true, createdAt: true },
+              })
+            : null;
+          if (since) {
+            const missed = await getPrisma().workspaceActivity.findMany({
+              where: {
+                workspaceId,
+                OR: [
+                  { createdAt: { gt: since.createdAt } },
+                  { createdAt: since.createdAt, id: { gt: since.id } },
+                ],
+              },
+              include: { actor: { select: WORKSPACE_ACTIVITY_ACTOR_SELECT } },
+              orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+              take: WORKSPACE_ACTIVITY_STREAM_REPLAY_LIMIT,
+            });
+            for (const activity of missed) {
+              delivered.add(activity.id);
+              send(activity);
+            }
+            if (missed.length === WORKSPACE_ACTIVITY_STREAM_REPLAY_LIMIT) {
+              stream.send('truncated', { limit: WORKSPACE_ACTIVITY_STREAM_REPLAY_LIMIT });
+            }
+          } else {
+            stream.send('reset', { lastEventId });
+          }
+        }
+      } catch (err) {
+        stream.close();
+        throw err;
+      }
+      replaying = false;
+      for (const activity of buffered.splice(0)) {
+        if (!delivered.has(activity.id)) {
+          send(activity);
+        }
+      }
+      stream.send('ready', { workspaceId });
+    })
+  );
+
+  router.get(
+    '/:id/presence',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+      res.json(workspacePresence.list(req.params.id));
+    })
+  );
+
+  router.post(
+    '/:id/presence/heartbeat',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+      res.json(
+        workspacePresence.heartbeat(
+          req.params.id,
+          publicUser(req.user!),
+          parsePresenceViewing(req.body)
+        )
+      );
+    })
+  );
+
+  router.delete(
+    '/:id/presence',
+    asyncHandler(async (req, res) => {
+      workspacePresence.leave(req.params.id, req.user!.id);
+      res.status(204).send();
+    })
+  );
+
+  router.get(
+    '/:id/presence/stream',
+    asyncHandler(async (req, res) => {
+      const user = req.user!;
+      const workspaceId = req.params.id;
+      const role = await resolveEffectiveWorkspaceRole(user, workspaceId);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+      const stream = openEventStream(req, res, {
+        onHeartbeat: () => streamStillAllowed(req, env, workspaceId),
+      });
+      stream.onClose(
+        workspacePresence.subscribe(workspaceId, (entries) => stream.send('presence', entries))
+      );
+      stream.send('presence', workspacePresence.list(workspaceId));
+    })
+  );
+
   router.get(
     '/:id/environments',
     asyncHandler(async (req, res) => {
@@ -493,6 +1028,9 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(403).json({ error: 'Editor role required' });
         return;
       }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
       const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
       if (!name) {
         res.status(400).json({ error: 'name is required' });
@@ -509,10 +1047,31 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         WorkspaceActivityTargetType.Environment,
         envRow.id
       );
+      setEntityTag(res, envRow);
       res.status(201).json(envRow);
     })
   );
 
+  router.get(
+    '/:id/environments/:envId',
+    asyncHandler(async (req, res) => {
+      const role = await resolveEffectiveWorkspaceRole(req.user!, req.params.id);
+      if (!roleAtLeast(role, WorkspaceRole.VIEWER)) {
+        res.status(403).json({ error: 'Forbidden' });
+        return;
+      }
+      const envRow = await getPrisma().sharedEnvironment.findFirst({
+        where: { id: req.params.envId, workspaceId: req.params.id },
+      });
+      if (!envRow) {
+        res.status(404).json({ error: 'Environment not found' });
+        return;
+      }
+      setEntityTag(res, envRow);
+      res.json(envRow);
+    })
+  );
+
   router.patch(
     '/:id/environments/:envId',
     asyncHandler(async (req, res) => {
@@ -521,6 +1080,9 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(403).json({ error: 'Editor role required' });
         return;
       }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
       const existing = await getPrisma().sharedEnvironment.findFirst({
         where: { id: req.params.envId, workspaceId: req.params.id },
       });
@@ -528,6 +1090,9 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(404).json({ error: 'Environment not found' });
         return;
       }
+      if (!checkIfMatch(req, res, existing)) {
+        return;
+      }
       const data: { name?: string; config?: Prisma.InputJsonValue } = {};
       if (typeof req.body?.name === 'string' && req.body.name.trim()) {
         data.name = req.body.name.trim();
@@ -535,10 +1100,17 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
       if (req.body?.config !== undefined) {
         data.config = stripSecretsFromConfig(req.body.config) as Prisma.InputJsonValue;
       }
-      const envRow = await getPrisma().sharedEnvironment.update({
-        where: { id: existing.id },
+      const { count } = await getPrisma().sharedEnvironment.updateMany({
+        where: { id: existing.id, ...ifMatchWhere(req, existing) },
         data,
       });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
+      const envRow = await getPrisma().sharedEnvironment.findUniqueOrThrow({
+        where: { id: existing.id },
+      });
       await recordActivity(
         req.params.id,
         req.user!.id,
@@ -546,6 +1118,7 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         WorkspaceActivityTargetType.Environment,
         envRow.id
       );
+      setEntityTag(res, envRow);
       res.json(envRow);
     })
   );
@@ -558,6 +1131,9 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(403).json({ error: 'Editor role required' });
         return;
       }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
       const existing = await getPrisma().sharedEnvironment.findFirst({
         where: { id: req.params.envId, workspaceId: req.params.id },
       });
@@ -565,7 +1141,16 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(404).json({ error: 'Environment not found' });
         return;
       }
-      await getPrisma().sharedEnvironment.delete({ where: { id: existing.id } });
+      if (!checkIfMatch(req, res, existing)) {
+        return;
+      }
+      const { count } = await getPrisma().sharedEnvironment.deleteMany({
+        where: { id: existing.id, ...ifMatchWhere(req, existing) },
+      });
+      if (!count) {
+        sendPreconditionFailed(res);
+        return;
+      }
       await recordActivity(
         req.params.id,
         req.user!.id,
@@ -601,6 +1186,9 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(403).json({ error: 'Editor role required' });
         return;
       }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
       const resourceType =
         typeof req.body?.resourceType === 'string' ? req.body.resourceType.trim() : '';
       const resourceId =
@@ -655,6 +1243,9 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
         res.status(403).json({ error: 'Editor role required' });
         return;
       }
+      if (await rejectIfArchived(res, req.params.id)) {
+        return;
+      }
       const existing = await getPrisma().workspaceResourceReference.findFirst({
         where: { id: req.params.refId, workspaceId: req.params.id },
       });
@@ -679,6 +1270,9 @@ export function createWorkspaceRouter(env: ServerEnv): Router {
     })
   );
 
+  registerLibraryRoutes(router);
+  registerWorkspaceInvitationRoutes(router, env);
+
   return router;
 }
 
@@ -686,6 +1280,7 @@ export function createActivityRouter(env: ServerEnv): Router {
   const router = Router();
   router.use(requireSsoConfigured(env));
   router.use(requireAuth(env));
+  router.use(requireCsrf(env));
 
   router.get(
     '/stats',
@@ -806,7 +1401,7 @@ export function createActivityRouter(env: ServerEnv): Router {
                 ? []
                 : await getPrisma().user.findMany({
                     where: { id: { in: actorIds } },
-                    select: { id: true, email: true, displayName: true },
+                    select: WORKSPACE_ACTIVITY_ACTOR_SELECT,
                   });
             const byId = new Map(users.map((u) => [u.id, u]));
             response.byActor = grouped.map((g) => {
@@ -815,6 +1410,8 @@ export function createActivityRouter(env: ServerEnv): Router {
                 actorUserId: g.actorUserId,
                 displayName: user?.displayName ?? null,
                 email: user?.email ?? null,
+                serviceAccount: user?.serviceAccount ?? null,
+                purgedAt: user?.purgedAt ?? null,
                 count: g._count._all,
               };
             });
@@ -873,7 +1470,7 @@ export function createActivityRouter(env: ServerEnv): Router {
         getPrisma().workspaceActivity.findMany({
           where,
           include: {
-            actor: { select: { id: true, email: true, displayName: true } },
+            actor: { select: WORKSPACE_ACTIVITY_ACTOR_SELECT },
             workspace: { select: { id: true, name: true, slug: true } },
           },
           orderBy: { [sortBy]: sortOrder },
@@ -0,0 +1,34 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BACKCHANNEL_LOGOUT_EVENT,
+  LogoutTokenError,
+  parseLogoutTokenClaims,
+} from '../src/auth/backchannel-logout.js';
+
+describe('parseLogoutTokenClaims', () => {
+  const events = { [BACKCHANNEL_LOGOUT_EVENT]: {} };
+
+  it('returns sub and sid', () => {
+    assert.deepEqual(parseLogoutTokenClaims({ events, sub: 'u1', sid: 's1' }), { sub: 'u1', sid: 's1' });
+    assert.deepEqual(parseLogoutTokenClaims({ events, sid: 's1' }), { sub: null, sid: 's1' });
+  });
+
+  it('requires the back-channel logout event', () => {
+    assert.throws(() => parseLogoutTokenClaims({ sub: 'u1' }), LogoutTokenError);
+    assert.throws(
+      () => parseLogoutTokenClaims({ events: { [BACKCHANNEL_LOGOUT_EVENT]: 'yes' }, sub: 'u1' }),
+      LogoutTokenError
+    );
+  });
+
+  it('requires sub or sid', () => {
+    assert.throws(() => parseLogoutTokenClaims({ events }), LogoutTokenError);
+  });
+
+  it('rejects ID tokens (nonce present)', () => {
+    assert.throws(() => parseLogoutTokenClaims({ events, sub: 'u1', nonce: 'n' }), LogoutTokenError);
+  });
+});
@@ -0,0 +1,100 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import {
+  createCsrfToken,
+  csrfTokenMatches,
+  isTrustedRequestOrigin,
+  requireCsrf,
+  trustedOrigins,
+} from '../src/auth/csrf.js';
+
+const env = {
+  sessionSecrets: ['current-secret', 'previous-secret'],
+  corsOrigin: 'https://studio.example.org',
+  uiBaseUrl: 'https://studio.example.org/app',
+};
+const trusted = trustedOrigins(env);
+
+function run(
+  method: string,
+  headers: Record<string, string>,
+  auth: Partial<Pick<Request, 'sessionId' | 'personalAccessTokenId'>> = { sessionId: 'session-1' }
+): { status: number | null; nextCalled: boolean } {
+  const lower = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  const req = { method, ...auth, get: (name: string) => lower[name.toLowerCase()] } as Request;
+  const result = { status: null as number | null, nextCalled: false };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+  } as unknown as Response;
+  requireCsrf(env)(req, res, () => {
+    result.nextCalled = true;
+  });
+  return result;
+}
+
+describe('csrf tokens', () => {
+  it('matches only the session it was issued for', () => {
+    const token = createCsrfToken('session-1', 'current-secret');
+    assert.equal(csrfTokenMatches(token, 'session-1', env.sessionSecrets), true);
+    assert.equal(csrfTokenMatches(token, 'session-2', env.sessionSecrets), false);
+    assert.equal(csrfTokenMatches(undefined, 'session-1', env.sessionSecrets), false);
+  });
+
+  it('accepts tokens signed with a previous secret', () => {
+    const token = createCsrfToken('session-1', 'previous-secret');
+    assert.equal(csrfTokenMatches(token, 'session-1', env.sessionSecrets), true);
+    assert.equal(csrfTokenMatches(token, 'session-1', ['current-secret']), false);
+  });
+});
+
+describe('request origin checks', () => {
+  it('trusts the Studio origin from Origin or Referer', () => {
+    assert.equal(isTrustedRequestOrigin('https://studio.example.org', undefined, trusted), true);
+    assert.equal(
+      isTrustedRequestOrigin(undefined, 'https://studio.example.org/app/workspaces', trusted),
+      true
+    );
+  });
+
+  it('refuses other sites and opaque origins', () => {
+    assert.equal(isTrustedRequestOrigin('https://evil.example.com', undefined, trusted), false);
+    assert.equal(isTrustedRequestOrigin('null', undefined, trusted), false);
+    assert.equal(isTrustedRequestOrigin(undefined, 'https://evil.example.com/x', trusted), false);
+  });
+});
+
+describe('requireCsrf', () => {
+  const token = createCsrfToken('session-1', 'current-secret');
+  const origin = 'https://studio.example.org';
+
+  it('allows same-site mutations carrying the token', () => {
+    assert.deepEqual(run('POST', { Origin: origin, 'X-CSRF-Token': token }), {
+      status: null,
+      nextCalled: true,
+    });
+  });
+
+  it('rejects cross-site mutations even with a valid token', () => {
+    const result = run('DELETE', { Origin: 'https://evil.example.com', 'X-CSRF-Token': token });
+    assert.deepEqual(result, { status: 403, nextCalled: false });
+  });
+
+  it('rejects mutations without a valid token', () => {
+    assert.deepEqual(run('PATCH', { Origin: origin }), { status: 403, nextCalled: false });
+    assert.deepEqual(run('POST', { 'X-CSRF-Token': 'forged' }), { status: 403, nextCalled: false });
+  });
+
+  it('skips safe methods and requests not authenticated by the session cookie', () => {
+    assert.equal(run('GET', { Origin: 'https://evil.example.com' }).nextCalled, true);
+    assert.equal(run('POST', {}, { personalAccessTokenId: 'pat-1' }).nextCalled, true);
+  });
+});
@@ -0,0 +1,48 @@
+// Author: Preston Lee
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { entityTag, ifMatchSatisfied, ifMatchWhere } from '../src/http/etag.ts';
+
+describe('entityTag', () => {
+  it('derives a strong tag from updatedAt', () => {
+    const a = entityTag({ updatedAt: new Date('2026-01-01T00:00:00.000Z') });
+    const b = entityTag({ updatedAt: new Date('2026-01-01T00:00:00.001Z') });
+    assert.match(a, /^"[0-9a-z]+"$/);
+    assert.notEqual(a, b);
+  });
+});
+
+describe('ifMatchSatisfied', () => {
+  const current = entityTag({ updatedAt: new Date('2026-01-01T00:00:00.000Z') });
+
+  it('passes when the header is absent or a wildcard', () => {
+    assert.equal(ifMatchSatisfied(undefined, current), true);
+    assert.equal(ifMatchSatisfied('*', current), true);
+  });
+
+  it('matches any tag in a list', () => {
+    assert.equal(ifMatchSatisfied(`"stale", ${current}`, current), true);
+  });
+
+  it('rejects stale and weak tags', () => {
+    assert.equal(ifMatchSatisfied('"stale"', current), false);
+    assert.equal(ifMatchSatisfied(`W/${current}`, current), false);
+    assert.equal(ifMatchSatisfied('', current), false);
+  });
+});
+
+describe('ifMatchWhere', () => {
+  const row = { updatedAt: new Date('2026-01-01T00:00:00.000Z') };
+  const request = (ifMatch?: string) =>
+    ({ get: (name: string) => (name === 'If-Match' ? ifMatch : undefined) }) as never;
+
+  it('pins conditional writes to the checked version', () => {
+    assert.deepEqual(ifMatchWhere(request(entityTag(row)), row), { updatedAt: row.updatedAt });
+  });
+
+  it('leaves unconditional and wildcard writes unpinned', () => {
+    assert.deepEqual(ifMatchWhere(request(), row), {});
+    assert.deepEqual(ifMatchWhere(request(' * '), row), {});
+  });
+});
@@ -0,0 +1,101 @@
+// Author: Preston Lee
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { assignFhirIds, buildFhirLibraryBundle, toFhirId } from '../src/workspace/fhir-bundle.ts';
+
+const helpers = {
+  id: '00000000-0000-4000-8000-000000000001',
+  name: 'FHIRHelpers',
+  version: '4.0.1',
+  cql: "library FHIRHelpers version '4.0.1'\n",
+  updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+};
+
+const measure = {
+  id: '00000000-0000-4000-8000-000000000002',
+  name: 'DiabetesHbA1c',
+  version: '1.0.0',
+  cql: [
+    "library DiabetesHbA1c version '1.0.0'",
+    "include FHIRHelpers version '4.0.1' called FHIRHelpers",
+    "valueset \"Diabetes\": 'http://cts.nlm.nih.gov/fhir/ValueSet/2.16.840.1.113883.3.464.1003.103.12.1001'",
+    '',
+  ].join('\n'),
+  updatedAt: new Date('2026-01-02T00:00:00.000Z'),
+};
+
+describe('buildFhirLibraryBundle', () => {
+  it('renders a transaction of Library resources with base64 CQL', () => {
+    const bundle = buildFhirLibraryBundle([measure], [], { canonicalBase: 'https://example.org/fhir/' });
+    assert.equal(bundle.resourceType, 'Bundle');
+    assert.equal(bundle.type, 'transaction');
+    const [entry] = bundle.entry;
+    assert.deepEqual(entry.request, { method: 'PUT', url: 'Library/DiabetesHbA1c' });
+    assert.equal(entry.resource.url, 'https://example.org/fhir/Library/DiabetesHbA1c');
+    assert.equal(entry.resource.version, '1.0.0');
+    assert.equal(entry.resource.status, 'draft');
+    assert.equal(
+      Buffer.from(entry.resource.content[0].data, 'base64').toString('utf8'),
+      measure.cql
+    );
+  });
+
+  it('prefers canonical URLs from Library resource references', () => {
+    const bundle = buildFhirLibraryBundle(
+      [helpers, measure],
+      [
+        {
+          resourceType: 'Library',
+          resourceId: 'FHIRHelpers',
+          canonicalUrl: 'http://fhir.org/guides/cqf/common/Library/FHIRHelpers',
+          displayName: null,
+        },
+        {
+          resourceType: 'ValueSet',
+          resourceId: '2.16.840.1.113883.3.464.1003.103.12.1001',
+          canonicalUrl:
+            'http://cts.nlm.nih.gov/fhir/ValueSet/2.16.840.1.113883.3.464.1003.103.12.1001',
+          displayName: 'Diabetes (VSAC)',
+        },
+      ]
+    );
+    const helpersEntry = bundle.entry.find((e) => e.resource.title === 'FHIRHelpers');
+    assert.equal(helpersEntry?.resource.url, 'http://fhir.org/guides/cqf/common/Library/FHIRHelpers');
+    const measureEntry = bundle.entry.find((e) => e.resource.title === 'DiabetesHbA1c');
+    assert.equal(measureEntry?.resource.url, undefined);
+    assert.deepEqual(measureEntry?.resource.relatedArtifact, [
+      {
+        type: 'depends-on',
+        display: 'FHIRHelpers',
+        resource: 'http://fhir.org/guides/cqf/common/Library/FHIRHelpers|4.0.1',
+      },
+      {
+        type: 'depends-on',
+        display: 'Diabetes (VSAC)',
+        resource: 'http://cts.nlm.nih.gov/fhir/ValueSet/2.16.840.1.113883.3.464.1003.103.12.1001',
+      },
+    ]);
+  });
+
+  it('produces valid FHIR ids', () => {
+    assert.equal(toFhirId('My Library_v2'), 'My-Library-v2');
+    assert.equal(toFhirId('***'), 'library');
+    assert.equal(toFhirId('x'.repeat(80)).length, 64);
+  });
+
+  it('keeps ids unique when names sanitize to the same id', () => {
+    const ids = assignFhirIds(['A B', 'A-B', 'A_B', 'x'.repeat(70), 'x'.repeat(65)]);
+    assert.deepEqual([...ids.values()].slice(0, 3), ['A-B', 'A-B-2', 'A-B-3']);
+    assert.equal(ids.get('x'.repeat(65)), `${'x'.repeat(62)}-2`);
+
+    const bundle = buildFhirLibraryBundle(
+      [
+        { id: 'l1', name: 'A B', version: null, cql: '', updatedAt: new Date(0) },
+        { id: 'l2', name: 'A-B', version: null, cql: '', updatedAt: new Date(0) },
+      ],
+      []
+    );
+    assert.deepEqual(bundle.entry.map((e) => e.request.url), ['Library/A-B', 'Library/A-B-2']);
+  });
+});
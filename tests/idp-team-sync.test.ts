@@ -0,0 +1,73 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGroupTeamMappings } from '../src/config/env.js';
+import {
+  readGroupsClaim,
+  readTrustedGroups,
+  resolveIdpTeamRoles,
+  staleIdpMembershipsWhere,
+} from '../src/team/idp-sync.js';
+
+describe('parseGroupTeamMappings', () => {
+  it('parses entries with an optional role', () => {
+    assert.deepEqual(parseGroupTeamMappings('measure-authors=authors, /cql-admins=authors:admin'), [
+      { group: 'measure-authors', teamSlug: 'authors', role: 'MEMBER' },
+      { group: '/cql-admins', teamSlug: 'authors', role: 'ADMIN' },
+    ]);
+    assert.deepEqual(parseGroupTeamMappings(undefined), []);
+  });
+
+  it('rejects malformed entries', () => {
+    assert.throws(() => parseGroupTeamMappings('authors'));
+    assert.throws(() => parseGroupTeamMappings('authors=Not A Slug'));
+    assert.throws(() => parseGroupTeamMappings('authors=authors:OWNER'));
+  });
+});
+
+describe('resolveIdpTeamRoles', () => {
+  const mappings = parseGroupTeamMappings('authors=authors,admins=authors:ADMIN,reviewers=review');
+
+  it('keeps the highest role per team and ignores unmapped groups', () => {
+    const roles = resolveIdpTeamRoles(['authors', 'admins', 'other'], mappings);
+    assert.deepEqual([...roles], [['authors', 'ADMIN']]);
+  });
+
+  it('returns nothing when no mapped group is asserted', () => {
+    assert.equal(resolveIdpTeamRoles([], mappings).size, 0);
+  });
+});
+
+describe('readGroupsClaim', () => {
+  it('accepts a string or list of strings and rejects anything else', () => {
+    assert.deepEqual(readGroupsClaim(['a', 'b']), ['a', 'b']);
+    assert.deepEqual(readGroupsClaim('a'), ['a']);
+    assert.equal(readGroupsClaim(undefined), null);
+    assert.equal(readGroupsClaim([1]), null);
+  });
+});
+
+describe('readTrustedGroups', () => {
+  const env = { ssoGroupsClaim: 'groups' };
+  const claims = { groups: ['cql-admins'] };
+
+  it('reads groups only from providers trusted for them', () => {
+    assert.deepEqual(readTrustedGroups(claims, { trustGroups: true }, env), ['cql-admins']);
+    assert.equal(readTrustedGroups(claims, { trustGroups: false }, env), null);
+    assert.equal(readTrustedGroups({}, { trustGroups: true }, env), null);
+  });
+});
+
+describe('staleIdpMembershipsWhere', () => {
+  const mappings = parseGroupTeamMappings('authors=authors,admins=authors:ADMIN,reviewers=review');
+
+  it('only removes sign-in memberships on mapped teams, never SCIM ones', () => {
+    assert.deepEqual(staleIdpMembershipsWhere('user-1', mappings, ['team-1']), {
+      userId: 'user-1',
+      source: 'IDP',
+      teamId: { notIn: ['team-1'] },
+      team: { slug: { in: ['authors', 'review'] } },
+    });
+  });
+});
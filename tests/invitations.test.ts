@@ -0,0 +1,103 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TeamMemberRole } from '@prisma/client';
+import { hmacSign } from '../src/auth/hmac.js';
+import { signInvitationToken, verifyInvitationToken } from '../src/auth/invitation-token.js';
+import {
+  assertWorkspaceAcceptsInvitations,
+  INVITATION_DEFAULT_TTL_DAYS,
+  INVITATION_MAX_TTL_DAYS,
+  InvitationError,
+  invitationMatchesUser,
+  normalizeInvitationEmail,
+  parseInvitationTtlDays,
+} from '../src/workspace/invitations.js';
+import { maxTeamRole, parseTeamMemberRole } from '../src/team/access.js';
+import { parseTeamInvitationMaxUses, TEAM_INVITATION_MAX_USES } from '../src/team/invitations.js';
+
+const ID = '0b6f3c1e-2f44-4c55-9a1d-1f7f3b0c9e21';
+
+describe('invitation tokens', () => {
+  it('round-trips kind and id', () => {
+    const token = signInvitationToken('workspace', ID, 'current');
+    assert.deepEqual(verifyInvitationToken(token, ['current']), {
+      kind: 'workspace',
+      invitationId: ID,
+    });
+  });
+
+  it('accepts tokens signed with a previous secret', () => {
+    const token = signInvitationToken('team', ID, 'old');
+    assert.deepEqual(verifyInvitationToken(token, ['current', 'old']), {
+      kind: 'team',
+      invitationId: ID,
+    });
+  });
+
+  it('rejects tampered tokens and foreign signed payloads', () => {
+    const token = signInvitationToken('workspace', ID, 'current');
+    assert.equal(verifyInvitationToken(token.replace('workspace', 'team'), ['current']), null);
+    assert.equal(verifyInvitationToken(token, ['other']), null);
+    // A session cookie is signed with the same secret but is not an invitation.
+    assert.equal(verifyInvitationToken(hmacSign(ID, 'current'), ['current']), null);
+    assert.equal(verifyInvitationToken(hmacSign(`invitation:group:${ID}`, 'current'), ['current']), null);
+  });
+});
+
+describe('invitation input parsing', () => {
+  it('normalizes emails', () => {
+    assert.equal(normalizeInvitationEmail('  Alice@Example.ORG '), 'alice@example.org');
+    assert.equal(normalizeInvitationEmail('not-an-email'), null);
+    assert.equal(normalizeInvitationEmail('a b@example.org'), null);
+    assert.equal(normalizeInvitationEmail(42), null);
+  });
+
+  it('parses expiry days within bounds', () => {
+    assert.equal(parseInvitationTtlDays(undefined), INVITATION_DEFAULT_TTL_DAYS);
+    assert.equal(parseInvitationTtlDays('7'), 7);
+    assert.equal(parseInvitationTtlDays(INVITATION_MAX_TTL_DAYS), INVITATION_MAX_TTL_DAYS);
+    assert.equal(parseInvitationTtlDays(0), null);
+    assert.equal(parseInvitationTtlDays(INVITATION_MAX_TTL_DAYS + 1), null);
+    assert.equal(parseInvitationTtlDays(1.5), null);
+  });
+
+  it('matches only verified user emails', () => {
+    const invitation = { email: 'alice@example.org' };
+    assert.equal(
+      invitationMatchesUser(invitation, { email: 'Alice@Example.org', emailVerified: true }),
+      true
+    );
+    assert.equal(
+      invitationMatchesUser(invitation, { email: 'alice@example.org', emailVerified: false }),
+      false
+    );
+    assert.equal(invitationMatchesUser(invitation, { email: null, emailVerified: true }), false);
+  });
+
+  it('refuses acceptance while the workspace is archived', () => {
+    assert.doesNotThrow(() => assertWorkspaceAcceptsInvitations({ archivedAt: null }));
+    assert.throws(
+      () => assertWorkspaceAcceptsInvitations({ archivedAt: new Date() }),
+      (err: unknown) => err instanceof InvitationError && err.status === 409
+    );
+  });
+});
+
+describe('team invitation parsing', () => {
+  it('parses join link max uses', () => {
+    assert.equal(parseTeamInvitationMaxUses(undefined), null);
+    assert.equal(parseTeamInvitationMaxUses(null), null);
+    assert.equal(parseTeamInvitationMaxUses('25'), 25);
+    assert.equal(parseTeamInvitationMaxUses(0), undefined);
+    assert.equal(parseTeamInvitationMaxUses(TEAM_INVITATION_MAX_USES + 1), undefined);
+  });
+
+  it('parses team roles and never downgrades', () => {
+    assert.equal(parseTeamMemberRole('admin'), TeamMemberRole.ADMIN);
+    assert.equal(parseTeamMemberRole('owner'), null);
+    assert.equal(maxTeamRole(TeamMemberRole.ADMIN, TeamMemberRole.MEMBER), TeamMemberRole.ADMIN);
+    assert.equal(maxTeamRole(null, TeamMemberRole.MEMBER), TeamMemberRole.MEMBER);
+  });
+});
@@ -0,0 +1,81 @@
+// Author: Preston Lee
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  buildLineDiffHunks,
+  diffLines,
+  LINE_DIFF_MAX_LINES,
+  splitLines,
+  summarizeLineDiff,
+} from '../src/workspace/library-diff.ts';
+
+function render(oldText: string, newText: string): string[] {
+  return diffLines(oldText, newText)!.map(
+    (e) => `${e.type === 'added' ? '+' : e.type === 'removed' ? '-' : ' '}${e.text}`
+  );
+}
+
+describe('splitLines', () => {
+  it('normalizes line endings and ignores the trailing newline', () => {
+    assert.deepEqual(splitLines('a\r\nb\n'), ['a', 'b']);
+    assert.deepEqual(splitLines(''), []);
+  });
+});
+
+describe('diffLines', () => {
+  it('reports identical text as unchanged', () => {
+    assert.deepEqual(render('a\nb\n', 'a\nb\n'), [' a', ' b']);
+  });
+
+  it('detects insertions, deletions and replacements', () => {
+    assert.deepEqual(render('a\nb\nc', 'a\nc\nd'), [' a', '-b', ' c', '+d']);
+    assert.deepEqual(render('', 'x\ny'), ['+x', '+y']);
+    assert.deepEqual(render('x\ny', ''), ['-x', '-y']);
+  });
+
+  it('numbers lines on both sides', () => {
+    const entries = diffLines('a\nb\nc', 'a\nB\nc')!;
+    const changed = entries.filter((e) => e.type !== 'equal');
+    assert.deepEqual(
+      changed.map((e) => [e.type, e.oldLineNumber, e.newLineNumber]),
+      [
+        ['removed', 2, null],
+        ['added', null, 2],
+      ]
+    );
+    assert.deepEqual(summarizeLineDiff(entries), { added: 1, removed: 1, unchanged: 2 });
+  });
+
+  it('gives up beyond the edit distance or line limits', () => {
+    const unrelated = (prefix: string) =>
+      Array.from({ length: 50 }, (_, i) => `${prefix} ${i}`).join('\n');
+    assert.equal(diffLines(unrelated('a'), unrelated('b'), 99), null);
+    assert.equal(diffLines(unrelated('a'), unrelated('b'), 100)?.length, 100);
+    const huge = 'x\n'.repeat(LINE_DIFF_MAX_LINES + 1);
+    assert.equal(diffLines(huge, huge), null);
+  });
+});
+
+describe('buildLineDiffHunks', () => {
+  it('splits distant changes into separate hunks with context', () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 2';
+    newLines[17] = 'changed 18';
+    const hunks = buildLineDiffHunks(diffLines(oldLines.join('\n'), newLines.join('\n'))!, 2);
+    assert.equal(hunks.length, 2);
+    assert.deepEqual(
+      hunks.map((h) => [h.oldStart, h.oldLines, h.newStart, h.newLines]),
+      [
+        [1, 4, 1, 4],
+        [16, 5, 16, 5],
+      ]
+    );
+  });
+
+  it('reports pure insertions at the preceding old line', () => {
+    const [hunk] = buildLineDiffHunks(diffLines('a\nb', 'a\nb\nc')!, 0);
+    assert.deepEqual([hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines], [2, 0, 3, 1]);
+  });
+});
@@ -0,0 +1,27 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatMaintenanceSummary } from '../src/services/maintenance.js';
+
+describe('formatMaintenanceSummary', () => {
+  const empty = {
+    sessions: 0,
+    workspaceInvitations: 0,
+    teamInvitations: 0,
+    personalAccessTokens: 0,
+    workspaces: 0,
+    teams: 0,
+  };
+
+  it('stays quiet when nothing was removed', () => {
+    assert.equal(formatMaintenanceSummary(empty, 12), null);
+  });
+
+  it('lists only non-zero counts', () => {
+    assert.equal(
+      formatMaintenanceSummary({ ...empty, sessions: 41, teams: 2 }, 87),
+      'Removed 41 sessions, 2 teams in 87 ms'
+    );
+  });
+});
@@ -0,0 +1,47 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  generatePersonalAccessToken,
+  hashPersonalAccessToken,
+  parsePersonalAccessTokenScopes,
+  parsePersonalAccessTokenTtlDays,
+  personalAccessTokenAllows,
+  readBearerPersonalAccessToken,
+} from '../src/auth/personal-access-token.js';
+
+describe('personal access tokens', () => {
+  it('generates distinct tokens stored only as hash and prefix', () => {
+    const a = generatePersonalAccessToken();
+    const b = generatePersonalAccessToken();
+    assert.notEqual(a.token, b.token);
+    assert.equal(a.tokenHash, hashPersonalAccessToken(a.token));
+    assert.ok(a.token.startsWith(a.tokenPrefix));
+    assert.ok(a.tokenPrefix.length < a.token.length);
+  });
+
+  it('reads only PAT bearer tokens from the Authorization header', () => {
+    assert.equal(readBearerPersonalAccessToken('Bearer cqls_pat_abc'), 'cqls_pat_abc');
+    assert.equal(readBearerPersonalAccessToken('bearer  cqls_pat_abc '), 'cqls_pat_abc');
+    assert.equal(readBearerPersonalAccessToken('Bearer eyJhbGciOi'), null);
+    assert.equal(readBearerPersonalAccessToken('Basic cqls_pat_abc'), null);
+    assert.equal(readBearerPersonalAccessToken(undefined), null);
+  });
+
+  it('parses scopes and expiry', () => {
+    assert.deepEqual(parsePersonalAccessTokenScopes(undefined), ['READ']);
+    assert.deepEqual(parsePersonalAccessTokenScopes(['read', 'WRITE', 'write']), ['READ', 'WRITE']);
+    assert.equal(parsePersonalAccessTokenScopes([]), null);
+    assert.equal(parsePersonalAccessTokenScopes(['admin']), null);
+    assert.equal(parsePersonalAccessTokenTtlDays(undefined), 30);
+    assert.equal(parsePersonalAccessTokenTtlDays(365), 365);
+    assert.equal(parsePersonalAccessTokenTtlDays(366), null);
+  });
+
+  it('limits READ tokens to safe methods', () => {
+    assert.equal(personalAccessTokenAllows(['READ'], 'GET'), true);
+    assert.equal(personalAccessTokenAllows(['READ'], 'POST'), false);
+    assert.equal(personalAccessTokenAllows(['WRITE'], 'DELETE'), true);
+  });
+});
@@ -0,0 +1,117 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WorkspacePrincipalType } from '@prisma/client';
+import {
+  applyScimMemberOps,
+  parseScimFilter,
+  parseScimListParams,
+  readScimGroupPatch,
+  readScimUserInput,
+  readScimUserPatch,
+  ScimError,
+  scimTokenMatches,
+} from '../src/scim/protocol.js';
+import { hasActiveOwner } from '../src/user/deprovision.js';
+import { principalKey } from '../src/workspace/access.js';
+
+describe('scim filters and paging', () => {
+  it('parses eq filters on allowed attributes, case-insensitively', () => {
+    assert.deepEqual(parseScimFilter('UserName eq "alice@example.org"', ['userName']), {
+      attribute: 'userName',
+      value: 'alice@example.org',
+    });
+    assert.equal(parseScimFilter(undefined, ['userName']), null);
+  });
+
+  it('rejects other operators and attributes', () => {
+    assert.throws(() => parseScimFilter('userName co "ali"', ['userName']), ScimError);
+    assert.throws(() => parseScimFilter('title eq "x"', ['userName']), ScimError);
+  });
+
+  it('clamps paging parameters', () => {
+    assert.deepEqual(parseScimListParams({}), { startIndex: 1, count: 100 });
+    assert.deepEqual(parseScimListParams({ startIndex: '11', count: '1000' }), {
+      startIndex: 11,
+      count: 200,
+    });
+  });
+});
+
+describe('scim users', () => {
+  it('reads a created user, falling back to an email-like userName', () => {
+    assert.deepEqual(
+      readScimUserInput({
+        userName: 'alice@example.org',
+        externalId: '00u1',
+        name: { givenName: 'Alice', familyName: 'Liddell' },
+      }),
+      {
+        userName: 'alice@example.org',
+        externalId: '00u1',
+        displayName: 'Alice Liddell',
+        email: 'alice@example.org',
+        active: true,
+      }
+    );
+    assert.throws(() => readScimUserInput({ displayName: 'No userName' }), ScimError);
+  });
+
+  it('reads Okta and Entra ID style deactivation', () => {
+    const okta = { Operations: [{ op: 'replace', value: { active: false } }] };
+    const entra = { Operations: [{ op: 'Replace', path: 'active', value: 'False' }] };
+    assert.deepEqual(readScimUserPatch(okta), { active: false });
+    assert.deepEqual(readScimUserPatch(entra), { active: false });
+  });
+
+  it('reads email paths and ignores unknown attributes', () => {
+    const patch = readScimUserPatch({
+      Operations: [
+        { op: 'replace', path: 'emails[type eq "work"].value', value: 'a@example.org' },
+        { op: 'add', path: 'phoneNumbers[type eq "work"].value', value: '555' },
+      ],
+    });
+    assert.deepEqual(patch, { email: 'a@example.org' });
+  });
+
+  it('matches only configured bearer tokens', () => {
+    assert.equal(scimTokenMatches('Bearer old-token', ['new-token', 'old-token']), true);
+    assert.equal(scimTokenMatches('Bearer other', ['new-token']), false);
+    assert.equal(scimTokenMatches('Basic new-token', ['new-token']), false);
+  });
+});
+
+describe('scim groups', () => {
+  it('reads member operations in order', () => {
+    const patch = readScimGroupPatch({
+      Operations: [
+        { op: 'add', path: 'members', value: [{ value: 'u1' }, { value: 'u2' }] },
+        { op: 'remove', path: 'members[value eq "u1"]' },
+        { op: 'replace', path: 'displayName', value: 'Measure Authors' },
+      ],
+    });
+    assert.equal(patch.displayName, 'Measure Authors');
+    assert.deepEqual([...applyScimMemberOps(['u0'], patch.memberOps)], ['u0', 'u2']);
+  });
+
+  it('treats removing members without a value as clearing them', () => {
+    const patch = readScimGroupPatch({ Operations: [{ op: 'remove', path: 'members' }] });
+    assert.deepEqual([...applyScimMemberOps(['u0', 'u1'], patch.memberOps)], []);
+  });
+});
+
+describe('workspace owner checks', () => {
+  const user = { principalType: WorkspacePrincipalType.USER, principalId: 'u1' };
+  const team = { principalType: WorkspacePrincipalType.TEAM, principalId: 't1' };
+
+  it('needs at least one active owner principal', () => {
+    assert.equal(hasActiveOwner([user, team], new Set([principalKey(team)])), true);
+    assert.equal(hasActiveOwner([user], new Set([principalKey(team)])), false);
+  });
+
+  it('keys principals by type as well as id', () => {
+    const sameIdTeam = { principalType: WorkspacePrincipalType.TEAM, principalId: 'u1' };
+    assert.equal(hasActiveOwner([sameIdTeam], new Set([principalKey(user)])), false);
+  });
+});
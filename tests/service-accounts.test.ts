@@ -0,0 +1,53 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WorkspacePrincipalType } from '@prisma/client';
+import {
+  generateServiceAccountClientId,
+  generateServiceAccountSecret,
+  readServiceAccountCredentials,
+  serviceAccountSecretMatches,
+} from '../src/auth/service-account-credentials.js';
+import { countLiveOwnerGrants, principalKey } from '../src/workspace/access.js';
+
+const basic = (value: string) => `Basic ${Buffer.from(value, 'utf8').toString('base64')}`;
+
+describe('service account credentials', () => {
+  it('matches only the generated secret', () => {
+    const { secret, secretHash } = generateServiceAccountSecret();
+    assert.equal(serviceAccountSecretMatches(secret, secretHash), true);
+    assert.equal(serviceAccountSecretMatches(`${secret}x`, secretHash), false);
+  });
+
+  it('reads client credentials from Basic authorization', () => {
+    const clientId = generateServiceAccountClientId();
+    assert.deepEqual(readServiceAccountCredentials(basic(`${clientId}:s3:cret`)), {
+      clientId,
+      clientSecret: 's3:cret',
+    });
+  });
+
+  it('ignores other schemes, client ids and empty secrets', () => {
+    assert.equal(readServiceAccountCredentials('Bearer cqls_sa_abc'), null);
+    assert.equal(readServiceAccountCredentials(basic('alice:password')), null);
+    assert.equal(readServiceAccountCredentials(basic('cqls_sa_abc:')), null);
+    assert.equal(readServiceAccountCredentials(undefined), null);
+  });
+});
+
+describe('workspace owner counting', () => {
+  const user = { principalType: WorkspacePrincipalType.USER, principalId: 'u1' };
+  const team = { principalType: WorkspacePrincipalType.TEAM, principalId: 't1' };
+  const account = { principalType: WorkspacePrincipalType.SERVICE_ACCOUNT, principalId: 'sa1' };
+
+  it('counts service account grants only while the account and its team are live', () => {
+    assert.equal(countLiveOwnerGrants([account], new Set([principalKey(account)])), 1);
+    assert.equal(countLiveOwnerGrants([account], new Set()), 0);
+    assert.equal(countLiveOwnerGrants([team, account], new Set([principalKey(team)])), 1);
+  });
+
+  it('always counts user grants', () => {
+    assert.equal(countLiveOwnerGrants([user, account], new Set()), 1);
+  });
+});
@@ -0,0 +1,82 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  computeSessionExpiry,
+  isSessionExpired,
+  SESSION_LAST_SEEN_THROTTLE_MS,
+  shouldTouchSession,
+} from '../src/auth/session.js';
+import { parsePositiveInt, parseTrustProxy } from '../src/config/env.js';
+
+const MINUTE = 60 * 1000;
+const now = new Date('2026-10-19T12:00:00Z');
+const ago = (ms: number) => new Date(now.getTime() - ms);
+
+describe('session last-seen throttling', () => {
+  it('skips writes inside the throttle window', () => {
+    assert.equal(shouldTouchSession(ago(1000), now), false);
+  });
+
+  it('writes once the window has elapsed', () => {
+    assert.equal(shouldTouchSession(ago(SESSION_LAST_SEEN_THROTTLE_MS), now), true);
+  });
+
+  it('writes more often under a short idle timeout', () => {
+    assert.equal(shouldTouchSession(ago(MINUTE), now, 4 * MINUTE), true);
+    assert.equal(shouldTouchSession(ago(MINUTE - 1), now, 4 * MINUTE), false);
+  });
+});
+
+describe('session lifetimes', () => {
+  const fixed = { sessionAbsoluteTtlMs: 60 * MINUTE, sessionIdleTimeoutMs: null };
+  const idle = { sessionAbsoluteTtlMs: 60 * MINUTE, sessionIdleTimeoutMs: 15 * MINUTE };
+
+  it('uses the absolute TTL when no idle timeout is set', () => {
+    assert.deepEqual(computeSessionExpiry(ago(10 * MINUTE), now, fixed), new Date(now.getTime() + 50 * MINUTE));
+  });
+
+  it('slides the idle deadline but never past the absolute TTL', () => {
+    assert.deepEqual(computeSessionExpiry(ago(10 * MINUTE), now, idle), new Date(now.getTime() + 15 * MINUTE));
+    assert.deepEqual(computeSessionExpiry(ago(50 * MINUTE), now, idle), new Date(now.getTime() + 10 * MINUTE));
+  });
+
+  it('rejects sessions idle past the limit even if expiresAt is later', () => {
+    const session = { createdAt: ago(20 * MINUTE), lastSeenAt: ago(16 * MINUTE), expiresAt: ago(-40 * MINUTE) };
+    assert.equal(isSessionExpired(session, now, idle), true);
+    assert.equal(isSessionExpired(session, now, fixed), false);
+  });
+
+  it('rejects sessions older than a lowered absolute TTL', () => {
+    const session = { createdAt: ago(90 * MINUTE), lastSeenAt: now, expiresAt: ago(-MINUTE) };
+    assert.equal(isSessionExpired(session, now, fixed), true);
+  });
+});
+
+describe('trust proxy setting', () => {
+  it('trusts no proxy unless configured', () => {
+    assert.equal(parseTrustProxy(undefined), false);
+    assert.equal(parseTrustProxy(' false '), false);
+  });
+
+  it('accepts true, a hop count or an address list', () => {
+    assert.equal(parseTrustProxy('true'), true);
+    assert.equal(parseTrustProxy('1'), 1);
+    assert.equal(parseTrustProxy('loopback, 10.0.0.0/8'), 'loopback, 10.0.0.0/8');
+  });
+});
+
+describe('parsePositiveInt', () => {
+  it('falls back when unset and parses plain digits', () => {
+    assert.equal(parsePositiveInt('X', undefined, 60), 60);
+    assert.equal(parsePositiveInt('X', '  ', 60), 60);
+    assert.equal(parsePositiveInt('X', ' 15 ', 60), 15);
+  });
+
+  it('rejects anything but a positive whole number', () => {
+    for (const raw of ['0', '-5', '1.5', '30m', '10abc', '1e3']) {
+      assert.throws(() => parsePositiveInt('X', raw, 60), /X must be a positive integer/);
+    }
+  });
+});
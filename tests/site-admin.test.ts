@@ -0,0 +1,90 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ADMIN_LIST_MAX_PAGE_SIZE,
+  parseAdminListQuery,
+  resolveSiteAdmin,
+} from '../src/admin/site-admin.js';
+import { parseSiteAdminSubjects } from '../src/config/env.js';
+
+describe('resolveSiteAdmin', () => {
+  const staff = { id: 'default', trustGroups: true };
+  const partners = { id: 'partners', trustGroups: false };
+  const env = {
+    siteAdminSubjects: ['default:alice-sub'],
+    siteAdminGroup: 'cql-admins',
+    ssoGroupsClaim: 'groups',
+  };
+
+  it('grants listed subjects regardless of groups', () => {
+    assert.equal(resolveSiteAdmin('alice-sub', {}, staff, env), true);
+  });
+
+  it('follows the admin group when the claim is present', () => {
+    const groups = { groups: ['authors', 'cql-admins'] };
+    assert.equal(resolveSiteAdmin('bob-sub', groups, staff, env), true);
+    assert.equal(resolveSiteAdmin('bob-sub', { groups: ['authors'] }, staff, env), false);
+  });
+
+  it('keeps the stored flag when the groups claim is missing', () => {
+    assert.equal(resolveSiteAdmin('bob-sub', {}, staff, env), null);
+  });
+
+  it('revokes unlisted subjects when no admin group is configured', () => {
+    assert.equal(resolveSiteAdmin('bob-sub', {}, staff, { ...env, siteAdminGroup: null }), false);
+  });
+
+  it('does not promote a second provider asserting the same sub or group', () => {
+    assert.equal(resolveSiteAdmin('alice-sub', {}, partners, env), false);
+    assert.equal(resolveSiteAdmin('mallory', { groups: ['cql-admins'] }, partners, env), false);
+  });
+});
+
+describe('parseSiteAdminSubjects', () => {
+  const providers = [{ id: 'default' }, { id: 'partners' }];
+
+  it('reads provider-scoped subjects', () => {
+    assert.deepEqual(parseSiteAdminSubjects(' default:alice , partners:a:b ', providers), [
+      'default:alice',
+      'partners:a:b',
+    ]);
+    assert.deepEqual(parseSiteAdminSubjects(undefined, providers), []);
+  });
+
+  it('rejects bare subjects and unknown providers', () => {
+    assert.throws(() => parseSiteAdminSubjects('alice', providers), /provider-id:sub/);
+    assert.throws(() => parseSiteAdminSubjects('default:', providers), /provider-id:sub/);
+    assert.throws(() => parseSiteAdminSubjects('staff:alice', providers), /unknown SSO provider/);
+  });
+});
+
+describe('parseAdminListQuery', () => {
+  it('lists everything by default', () => {
+    assert.deepEqual(parseAdminListQuery({ query: {} }), {
+      q: null,
+      page: 1,
+      pageSize: 25,
+      skip: 0,
+      includeDeleted: false,
+    });
+  });
+
+  it('reads the filter, paging and trash flag', () => {
+    const parsed = parseAdminListQuery({
+      query: { q: ' measures ', page: '3', pageSize: '500', includeDeleted: 'true' },
+    });
+    assert.deepEqual(parsed, {
+      q: 'measures',
+      page: 3,
+      pageSize: ADMIN_LIST_MAX_PAGE_SIZE,
+      skip: 2 * ADMIN_LIST_MAX_PAGE_SIZE,
+      includeDeleted: true,
+    });
+  });
+
+  it('rejects overlong filters', () => {
+    assert.equal(typeof parseAdminListQuery({ query: { q: 'x'.repeat(101) } }), 'string');
+  });
+});
@@ -0,0 +1,104 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { verifiedEmailClaim } from '../src/auth/oidc.js';
+import { assertGroupsTrusted, loadSsoProviders } from '../src/config/env.js';
+
+const base = {
+  CQL_STUDIO_SERVER_SSO_ISSUER_URL: 'https://staff.example.org/',
+  CQL_STUDIO_SERVER_SSO_CLIENT_ID: 'studio',
+  CQL_STUDIO_SERVER_SSO_CLIENT_SECRET: 'staff-secret',
+};
+
+const partners = {
+  CQL_STUDIO_SERVER_SSO_PROVIDERS: 'ext-partners',
+  CQL_STUDIO_SERVER_SSO_EXT_PARTNERS_NAME: 'Partners',
+  CQL_STUDIO_SERVER_SSO_EXT_PARTNERS_ISSUER_URL: 'https://partners.example.org',
+  CQL_STUDIO_SERVER_SSO_EXT_PARTNERS_CLIENT_ID: 'studio-ext',
+  CQL_STUDIO_SERVER_SSO_EXT_PARTNERS_CLIENT_SECRET: 'new',
+  CQL_STUDIO_SERVER_SSO_EXT_PARTNERS_CLIENT_SECRET_PREVIOUS: 'old,new',
+};
+
+describe('loadSsoProviders', () => {
+  it('returns nothing when SSO is not configured', () => {
+    assert.deepEqual(loadSsoProviders({}, 'production'), []);
+  });
+
+  it('keeps the unprefixed variables as the default provider, first', () => {
+    const providers = loadSsoProviders({ ...base, ...partners }, 'production');
+    assert.deepEqual(
+      providers.map((p) => [p.id, p.name, p.clientId]),
+      [
+        ['default', 'Single sign-on', 'studio'],
+        ['ext-partners', 'Partners', 'studio-ext'],
+      ]
+    );
+    assert.deepEqual(providers[1].clientSecretPrevious, ['old']);
+    assert.equal(providers[1].scopes, 'openid profile email');
+  });
+
+  it('allows named providers without a default provider', () => {
+    assert.deepEqual(
+      loadSsoProviders(partners, 'production').map((p) => p.id),
+      ['ext-partners']
+    );
+  });
+
+  it('rejects incomplete or conflicting providers', () => {
+    assert.throws(
+      () => loadSsoProviders({ ...partners, CQL_STUDIO_SERVER_SSO_EXT_PARTNERS_CLIENT_ID: '' }, 'production'),
+      /CQL_STUDIO_SERVER_SSO_EXT_PARTNERS_CLIENT_ID/
+    );
+    assert.throws(
+      () =>
+        loadSsoProviders(
+          { ...base, ...partners, CQL_STUDIO_SERVER_SSO_EXT_PARTNERS_ISSUER_URL: 'https://staff.example.org' },
+          'production'
+        ),
+      /more than one provider/
+    );
+    assert.throws(() => loadSsoProviders({ CQL_STUDIO_SERVER_SSO_PROVIDERS: 'default' }, 'production'));
+  });
+
+  it('refuses group settings when no provider trusts groups', () => {
+    const settings = ['CQL_STUDIO_SERVER_SSO_GROUP_TEAMS'];
+    assert.throws(
+      () => assertGroupsTrusted(settings, loadSsoProviders(base, 'production')),
+      /TRUST_GROUPS=true/
+    );
+    const trusting = loadSsoProviders(
+      { ...base, CQL_STUDIO_SERVER_SSO_TRUST_GROUPS: 'true' },
+      'production'
+    );
+    assert.doesNotThrow(() => assertGroupsTrusted(settings, trusting));
+    assert.doesNotThrow(() => assertGroupsTrusted([], []));
+  });
+
+  it('rejects HTTP issuers outside development', () => {
+    const http = { ...base, CQL_STUDIO_SERVER_SSO_ISSUER_URL: 'http://localhost:9000/' };
+    assert.throws(() => loadSsoProviders(http, 'production'), /HTTP SSO issuer/);
+    assert.equal(loadSsoProviders(http, 'development').length, 1);
+  });
+});
+
+describe('verifiedEmailClaim', () => {
+  const strict = { trustUnverifiedEmail: false };
+
+  it('requires email_verified to be true', () => {
+    assert.equal(verifiedEmailClaim({ email: 'a@example.org', email_verified: true }, strict), 'a@example.org');
+    assert.equal(verifiedEmailClaim({ email: 'a@example.org' }, strict), null);
+    assert.equal(verifiedEmailClaim({ email: 'a@example.org', email_verified: 'true' }, strict), null);
+    assert.equal(verifiedEmailClaim({ email_verified: true }, strict), null);
+  });
+
+  it('accepts unverified addresses only from providers configured to vouch for them', () => {
+    const [trusted] = loadSsoProviders(
+      { ...base, CQL_STUDIO_SERVER_SSO_TRUST_UNVERIFIED_EMAIL: 'true' },
+      'production'
+    );
+    assert.equal(trusted.trustUnverifiedEmail, true);
+    assert.equal(verifiedEmailClaim({ email: 'a@example.org' }, trusted), 'a@example.org');
+    assert.equal(loadSsoProviders(base, 'production')[0].trustUnverifiedEmail, false);
+  });
+});
@@ -0,0 +1,77 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyUserPreferencesPatch,
+  normalizeStoredPreferences,
+  parseDisplayNameOverride,
+  parseHttpUrl,
+  UserPreferencesError,
+} from '../src/user/preferences.js';
+
+describe('user preferences', () => {
+  it('merges patches and removes keys set to null', () => {
+    const current = {
+      theme: 'dark' as const,
+      editor: { fontSize: 14, wordWrap: true },
+      ollamaBaseUrl: 'http://localhost:11434',
+    };
+    const next = applyUserPreferencesPatch(current, {
+      editor: { fontSize: 16, wordWrap: null },
+      ollamaBaseUrl: null,
+      searxngBaseUrl: 'https://search.example.org/',
+    });
+    assert.deepEqual(next, {
+      theme: 'dark',
+      editor: { fontSize: 16 },
+      searxngBaseUrl: 'https://search.example.org',
+    });
+    assert.deepEqual(current.editor, { fontSize: 14, wordWrap: true });
+  });
+
+  it('drops the editor block once it is empty', () => {
+    assert.deepEqual(applyUserPreferencesPatch({ editor: { tabSize: 2 } }, { editor: { tabSize: null } }), {});
+  });
+
+  it('rejects unknown keys and invalid values', () => {
+    assert.throws(() => applyUserPreferencesPatch({}, { colour: 'red' }), UserPreferencesError);
+    assert.throws(() => applyUserPreferencesPatch({}, { theme: 'sepia' }), UserPreferencesError);
+    assert.throws(() => applyUserPreferencesPatch({}, { editor: { fontSize: 2 } }), UserPreferencesError);
+    assert.throws(() => applyUserPreferencesPatch({}, []), UserPreferencesError);
+  });
+
+  it('reads malformed stored JSON as empty preferences', () => {
+    assert.deepEqual(normalizeStoredPreferences(null), {});
+    assert.deepEqual(normalizeStoredPreferences({ theme: 'sepia' }), {});
+    assert.deepEqual(normalizeStoredPreferences({ theme: 'light' }), { theme: 'light' });
+  });
+
+  it('drops malformed stored entries individually', () => {
+    assert.deepEqual(
+      normalizeStoredPreferences({
+        theme: 'sepia',
+        legacy: true,
+        ollamaBaseUrl: 'http://localhost:11434',
+        editor: { fontSize: 99, tabSize: 2, vimMode: true },
+      }),
+      { ollamaBaseUrl: 'http://localhost:11434', editor: { tabSize: 2 } }
+    );
+    assert.deepEqual(normalizeStoredPreferences({ editor: 'wide', theme: 'dark' }), { theme: 'dark' });
+  });
+});
+
+describe('profile fields', () => {
+  it('accepts only http(s) URLs without credentials', () => {
+    assert.equal(parseHttpUrl(' https://example.org/a.png ', 'avatarUrl'), 'https://example.org/a.png');
+    assert.throws(() => parseHttpUrl('javascript:alert(1)', 'avatarUrl'), UserPreferencesError);
+    assert.throws(() => parseHttpUrl('https://u:p@example.org/', 'avatarUrl'), UserPreferencesError);
+  });
+
+  it('normalizes display name overrides', () => {
+    assert.equal(parseDisplayNameOverride('  Ada  '), 'Ada');
+    assert.equal(parseDisplayNameOverride('   '), null);
+    assert.equal(parseDisplayNameOverride(null), null);
+    assert.throws(() => parseDisplayNameOverride(42), UserPreferencesError);
+  });
+});
@@ -0,0 +1,47 @@
+// Author: Preston Lee
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildUserSearchWhere,
+  parseUserSearchQuery,
+  USER_SEARCH_DEFAULT_PAGE_SIZE,
+  USER_SEARCH_MAX_PAGE_SIZE,
+} from '../src/user/search.js';
+
+describe('user search query', () => {
+  it('requires a query of at least two characters', () => {
+    assert.equal(typeof parseUserSearchQuery({ query: {} }), 'string');
+    assert.equal(typeof parseUserSearchQuery({ query: { q: ' a ' } }), 'string');
+  });
+
+  it('defaults and clamps pagination', () => {
+    assert.deepEqual(parseUserSearchQuery({ query: { q: ' al ' } }), {
+      q: 'al',
+      page: 1,
+      pageSize: USER_SEARCH_DEFAULT_PAGE_SIZE,
+      skip: 0,
+    });
+    assert.deepEqual(parseUserSearchQuery({ query: { q: 'al', page: '3', pageSize: '500' } }), {
+      q: 'al',
+      page: 3,
+      pageSize: USER_SEARCH_MAX_PAGE_SIZE,
+      skip: 2 * USER_SEARCH_MAX_PAGE_SIZE,
+    });
+  });
+
+  it('scopes to team-mates unless global lookup is enabled', () => {
+    const scoped = buildUserSearchWhere('al', 'caller', false);
+    assert.deepEqual(scoped.teamMemberships, {
+      some: { team: { deletedAt: null, memberships: { some: { userId: 'caller' } } } },
+    });
+    assert.equal(buildUserSearchWhere('al', 'caller', true).teamMemberships, undefined);
+  });
+
+  it('lists only active people', () => {
+    const where = buildUserSearchWhere('al', 'caller', true);
+    assert.equal(where.serviceAccountId, null);
+    assert.equal(where.deprovisionedAt, null);
+    assert.equal(where.disabledAt, null);
+  });
+});
@@ -0,0 +1,95 @@
+// Author: Preston Lee
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  parseWorkspaceBundle,
+  WORKSPACE_BUNDLE_FORMAT,
+  WORKSPACE_BUNDLE_VERSION,
+  WorkspaceBundleError,
+} from '../src/workspace/bundle.ts';
+
+function bundle(overrides: Record<string, unknown> = {}) {
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: WORKSPACE_BUNDLE_VERSION,
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    workspace: { name: 'Diabetes Measures', slug: 'diabetes-measures', visibility: 'public' },
+    environments: [
+      {
+        name: 'Staging',
+        config: {
+          contentEndpoint: { url: 'https://fhir.example.org', basicAuthPassword: 'secret' },
+        },
+      },
+    ],
+    resources: [{ resourceType: 'ValueSet', resourceId: 'vs-1', canonicalUrl: 'http://example.org/vs-1' }],
+    libraries: [
+      {
+        name: 'DiabetesHbA1c',
+        version: '1.0.0',
+        revisions: [
+          { revisionNumber: 7, cql: "library DiabetesHbA1c version '0.9.0'", version: '0.9.0' },
+          { revisionNumber: 9, cql: "library DiabetesHbA1c version '1.0.0'", version: '1.0.0' },
+        ],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('parseWorkspaceBundle', () => {
+  it('normalizes a valid bundle', () => {
+    const parsed = parseWorkspaceBundle(bundle());
+    assert.equal(parsed.workspace.visibility, 'PUBLIC');
+    assert.equal(parsed.workspace.description, null);
+    assert.deepEqual(parsed.environments[0].config, { contentEndpoint: { url: 'https://fhir.example.org' } });
+    assert.equal(parsed.resources[0].displayName, null);
+    assert.deepEqual(
+      parsed.libraries[0].revisions.map((r) => [r.revisionNumber, r.name, r.version]),
+      [
+        [1, 'DiabetesHbA1c', '0.9.0'],
+        [2, 'DiabetesHbA1c', '1.0.0'],
+      ]
+    );
+  });
+
+  it('rejects unknown formats and versions', () => {
+    assert.throws(() => parseWorkspaceBundle(bundle({ format: 'other' })), WorkspaceBundleError);
+    assert.throws(() => parseWorkspaceBundle(bundle({ version: 2 })), /Unsupported bundle version/);
+    assert.throws(() => parseWorkspaceBundle(null), WorkspaceBundleError);
+  });
+
+  it('rejects duplicates that would violate unique constraints', () => {
+    assert.throws(
+      () =>
+        parseWorkspaceBundle(
+          bundle({ environments: [{ name: 'A', config: {} }, { name: 'A', config: {} }] })
+        ),
+      /Duplicate environment name/
+    );
+    assert.throws(
+      () =>
+        parseWorkspaceBundle(
+          bundle({
+            resources: [
+              { resourceType: 'ValueSet', resourceId: 'x' },
+              { resourceType: 'ValueSet', resourceId: 'x' },
+            ],
+          })
+        ),
+      /Duplicate resource reference/
+    );
+  });
+
+  it('requires library revisions with CQL', () => {
+    assert.throws(
+      () => parseWorkspaceBundle(bundle({ libraries: [{ name: 'Empty', revisions: [] }] })),
+      /at least one revision/
+    );
+    assert.throws(
+      () => parseWorkspaceBundle(bundle({ libraries: [{ name: 'Bad', revisions: [{}] }] })),
+      /cql must be a string/
+    );
+  });
+});
@@ -0,0 +1,64 @@
+// Author: Preston Lee
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { WorkspacePresenceRegistry } from '../src/workspace/presence.ts';
+
+const alice = { id: 'alice', email: 'alice@example.org', displayName: 'Alice' };
+const bob = { id: 'bob', email: 'bob@example.org', displayName: 'Bob' };
+
+function createRegistry() {
+  let now = Date.parse('2026-01-01T00:00:00.000Z');
+  const registry = new WorkspacePresenceRegistry({ ttlMs: 1000, sweepMs: 60_000, now: () => now });
+  return {
+    registry,
+    advance(ms: number) {
+      now += ms;
+    },
+  };
+}
+
+describe('WorkspacePresenceRegistry', () => {
+  it('keeps one entry per user with the resource being viewed', () => {
+    const { registry } = createRegistry();
+    registry.heartbeat('ws-1', alice, { resourceType: null, resourceId: null });
+    const entries = registry.heartbeat('ws-1', alice, { resourceType: 'library', resourceId: 'lib-1' });
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].resourceType, 'library');
+    assert.equal(entries[0].resourceId, 'lib-1');
+    assert.deepEqual(registry.list('ws-2'), []);
+    registry.stopSweeping();
+  });
+
+  it('expires users who stop sending heartbeats', () => {
+    const { registry, advance } = createRegistry();
+    registry.heartbeat('ws-1', alice, { resourceType: null, resourceId: null });
+    advance(600);
+    registry.heartbeat('ws-1', bob, { resourceType: null, resourceId: null });
+    advance(600);
+    assert.deepEqual(
+      registry.list('ws-1').map((e) => e.user.id),
+      ['bob']
+    );
+    assert.equal(registry.sweep(), 1);
+    advance(1000);
+    assert.equal(registry.sweep(), 1);
+    assert.deepEqual(registry.list('ws-1'), []);
+  });
+
+  it('notifies subscribers on joins, moves and leaves but not on plain heartbeats', () => {
+    const { registry } = createRegistry();
+    const seen: string[][] = [];
+    const unsubscribe = registry.subscribe('ws-1', (entries) => {
+      seen.push(entries.map((e) => `${e.user.id}:${e.resourceId ?? '-'}`));
+    });
+    registry.heartbeat('ws-1', alice, { resourceType: null, resourceId: null });
+    registry.heartbeat('ws-1', alice, { resourceType: null, resourceId: null });
+    registry.heartbeat('ws-1', alice, { resourceType: 'library', resourceId: 'lib-1' });
+    registry.leave('ws-1', alice.id);
+    unsubscribe();
+    registry.heartbeat('ws-1', bob, { resourceType: null, resourceId: null });
+    assert.deepEqual(seen, [['alice:-'], ['alice:lib-1'], []]);
+    registry.stopSweeping();
+  });
+});